@@ -52,6 +52,29 @@ overrideModuleFromAppDir("@babel/plugin-transform-react-jsx-self", {
   visitor: {},
 });
 
+// Metro resolves all requires when building the bundle, so modules that may be missing in the app's
+// React Native version can't be required from runtime.js, even within try-catch, as the bundle
+// would fail to build. Instead, we expose the ones that can be resolved from InitializeCore to
+// the runtime, the same way React Native resolves them in polyfillPromise.js.
+const OPTIONAL_RUNTIME_MODULES = {
+  promiseRejectionTrackingOptions: "react-native/Libraries/promiseRejectionTrackingOptions",
+  promiseRejectionTracking: "promise/setimmediate/rejection-tracking",
+};
+
+function getOptionalRuntimeModules(fromDir) {
+  const getters = Object.entries(OPTIONAL_RUNTIME_MODULES)
+    .filter(([_name, moduleName]) => {
+      try {
+        require.resolve(moduleName, { paths: [fromDir] });
+        return true;
+      } catch (e) {
+        return false;
+      }
+    })
+    .map(([name, moduleName]) => `${name}: () => require("${moduleName}")`);
+  return `global.__RNIDE_optionalModules = { ${getters.join(", ")} };`;
+}
+
 function transformWrapper({ filename, src, ...rest }) {
   function isTransforming(unixPath) {
     return filename.endsWith(path.normalize(unixPath));
@@ -59,7 +82,8 @@ function transformWrapper({ filename, src, ...rest }) {
 
   const { transform } = require(ORIGINAL_TRANSFORMER_PATH);
   if (isTransforming("node_modules/react-native/Libraries/Core/InitializeCore.js")) {
-    src = `${src};require("__RNIDE_lib__/runtime.js");`;
+    const optionalModules = getOptionalRuntimeModules(path.dirname(filename));
+    src = `${src};${optionalModules}require("__RNIDE_lib__/runtime.js");`;
   } else if (isTransforming("node_modules/expo-router/entry.js")) {
     // expo-router v2 and v3 integration
     const { version } = requireFromAppDir("expo-router/package.json");
@@ -68,6 +92,15 @@ function transformWrapper({ filename, src, ...rest }) {
     } else if (version.startsWith("3.") || version.startsWith("4.")) {
       src = `${src};require("__RNIDE_lib__/expo_router_plugin.js");`;
     }
+  } else if (
+    isTransforming("node_modules/@react-navigation/native/src/NavigationContainer.tsx") ||
+    isTransforming("node_modules/@react-navigation/native/lib/module/NavigationContainer.js") ||
+    isTransforming("node_modules/@react-navigation/native/lib/commonjs/NavigationContainer.js")
+  ) {
+    // plain React Navigation integration. The container is also rendered by expo-router, whether
+    // the app uses it is only known at runtime once its entry is loaded, in which case the
+    // expo-router plugin takes precedence over this one (see wrapper.js)
+    src = `${src};require("__RNIDE_lib__/react_navigation_plugin.js").wrapNavigationContainer(NavigationContainer);`;
   } else if (
     isTransforming("node_modules/react-native-ide/index.js") || // using react-native-ide for compatibility with old NPM package name
     isTransforming("node_modules/radon-ide/index.js")
@@ -104,7 +137,25 @@ function transformWrapper({ filename, src, ...rest }) {
     }
   }
 
-  return transform({ filename, src, ...rest });
+  // Transform duration is reported for the bundle statistics. Transformer runs in metro's worker
+  // processes, whose output metro forwards to the reporter as "worker_stdout_chunk" events.
+  const transformStart = Date.now();
+  const result = transform({ filename, src, ...rest });
+  Promise.resolve(result).then(
+    () => {
+      process.stdout.write(
+        JSON.stringify({
+          type: "RNIDE_module_transformed",
+          filename,
+          durationMs: Date.now() - transformStart,
+        }) + "\n"
+      );
+    },
+    () => {
+      // errors are reported by metro
+    }
+  );
+  return result;
 }
 
 module.exports = { transform: transformWrapper };
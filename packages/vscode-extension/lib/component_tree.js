@@ -0,0 +1,285 @@
+const { Dimensions } = require("react-native");
+
+// Fiber tags, see ReactWorkTags in React source
+const FunctionComponent = 0;
+const ClassComponent = 1;
+const HostComponent = 5;
+const ForwardRef = 11;
+const MemoComponent = 14;
+const SimpleMemoComponent = 15;
+
+const COMPOSITE_TAGS = new Set([
+  FunctionComponent,
+  ClassComponent,
+  ForwardRef,
+  MemoComponent,
+  SimpleMemoComponent,
+]);
+
+// React 19 uses a different symbol for elements than the previous versions
+const REACT_ELEMENT_TYPES = [Symbol.for("react.element"), Symbol.for("react.transitional.element")];
+
+const MAX_TREE_NODES = 10000;
+const MAX_VALUE_DEPTH = 4;
+const MAX_VALUE_ENTRIES = 100;
+
+let lastComponentId = 0;
+// fibers are swapped with their alternates on every render, so both of them share the same id
+const componentIds = new WeakMap();
+
+function getComponentId(fiber) {
+  let id = componentIds.get(fiber) ?? componentIds.get(fiber.alternate);
+  if (id === undefined) {
+    id = ++lastComponentId;
+  }
+  componentIds.set(fiber, id);
+  fiber.alternate && componentIds.set(fiber.alternate, id);
+  return id;
+}
+
+function getDisplayName(fiber) {
+  const type = fiber.tag === MemoComponent ? fiber.type?.type : fiber.type;
+  if (typeof type === "string") {
+    return type;
+  }
+  if (type?.displayName) {
+    return type.displayName;
+  }
+  if (fiber.tag === ForwardRef || type?.render) {
+    const render = type?.render;
+    return render?.displayName || render?.name || "ForwardRef";
+  }
+  return type?.name || "Anonymous";
+}
+
+function getRoots() {
+  // The same hook is used by the devtools agent to keep track of mounted roots
+  const hook = global.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  const roots = [];
+  hook?.renderers?.forEach((renderer, rendererId) => {
+    hook
+      .getFiberRoots(rendererId)
+      ?.forEach((root) => roots.push({ renderer, fiber: root.current }));
+  });
+  return roots;
+}
+
+// Only composite components are included in the tree, host components (i.e. views) are skipped
+// and their children are attached to the nearest composite ancestor.
+function collectComponents(fiber, result, counter) {
+  for (let child = fiber.child; child; child = child.sibling) {
+    if (counter.count >= MAX_TREE_NODES) {
+      return result;
+    }
+    if (COMPOSITE_TAGS.has(child.tag)) {
+      counter.count++;
+      result.push({
+        id: getComponentId(child),
+        name: getDisplayName(child),
+        children: collectComponents(child, [], counter),
+      });
+    } else {
+      collectComponents(child, result, counter);
+    }
+  }
+  return result;
+}
+
+export function getComponentTree() {
+  const counter = { count: 0 };
+  return getRoots().flatMap((root) => collectComponents(root.fiber, [], counter));
+}
+
+// returns the fiber along with the renderer it belongs to
+function findFiberById(id) {
+  // we search the current trees instead of keeping the references, as the stored fibers
+  // may no longer be the current ones after the app re-renders
+  for (const { renderer, fiber: rootFiber } of getRoots()) {
+    const stack = [rootFiber];
+    while (stack.length > 0) {
+      const fiber = stack.pop();
+      // the current fiber may be an alternate created after the id was assigned, in which case
+      // only the other one of the pair has the id, so we copy it over to make later lookups direct
+      if ((componentIds.get(fiber) ?? componentIds.get(fiber.alternate)) === id) {
+        getComponentId(fiber);
+        return { renderer, fiber };
+      }
+      for (let child = fiber.child; child; child = child.sibling) {
+        stack.push(child);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds ids of components from the inspector hierarchy, names are ordered starting from the
+ * innermost component. The hierarchy doesn't expose fibers, so we match the names against the
+ * ancestors of the inspected instance.
+ */
+export function findComponentIds(instance, names) {
+  let fiber = instance;
+  return names.map((name) => {
+    let ancestor = fiber;
+    while (ancestor && !(COMPOSITE_TAGS.has(ancestor.tag) && getDisplayName(ancestor) === name)) {
+      ancestor = ancestor.return;
+    }
+    if (!ancestor) {
+      // we keep looking for the next names from the same place when there's no match
+      return undefined;
+    }
+    fiber = ancestor.return;
+    return getComponentId(ancestor);
+  });
+}
+
+export function describeValue(value, depth) {
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+      return { type: typeof value, value };
+    case "undefined":
+      return { type: "undefined" };
+    case "function":
+      return { type: "function", name: value.name || "anonymous" };
+    case "symbol":
+    case "bigint":
+      return { type: "other", description: String(value) };
+  }
+  if (value === null) {
+    return { type: "null" };
+  }
+  if (REACT_ELEMENT_TYPES.includes(value.$$typeof)) {
+    const type = value.type;
+    const name = typeof type === "string" ? type : type?.displayName || type?.name || "Unknown";
+    return { type: "other", description: `<${name} />` };
+  }
+
+  const isArray = Array.isArray(value);
+  const preview = isArray ? `Array(${value.length})` : value.constructor?.name || "Object";
+  if (depth >= MAX_VALUE_DEPTH) {
+    return { type: "object", preview, entries: undefined };
+  }
+  const entries = Object.keys(value)
+    .slice(0, MAX_VALUE_ENTRIES)
+    .map((key) => [key, describeValue(value[key], depth + 1)]);
+  return { type: "object", preview, entries };
+}
+
+function describeHooks(fiber) {
+  // function components keep their hooks in a linked list, hooks with update queue are the
+  // state and reducer hooks. The index is the position of the hook in the list.
+  const hooks = [];
+  let hook = fiber.memoizedState;
+  for (let index = 0; hook; index++, hook = hook.next) {
+    if (hook.queue && typeof hook.queue === "object" && "dispatch" in hook.queue) {
+      hooks.push({ index, value: describeValue(hook.memoizedState, 0) });
+    }
+  }
+  return hooks;
+}
+
+export function inspectComponent(id) {
+  const fiber = findFiberById(id)?.fiber;
+  if (!fiber) {
+    return undefined;
+  }
+  const isClassComponent = fiber.tag === ClassComponent;
+  const source = fiber._debugSource;
+  return {
+    id,
+    name: getDisplayName(fiber),
+    props: describeValue(fiber.memoizedProps ?? {}, 0),
+    state: isClassComponent ? describeValue(fiber.memoizedState, 0) : undefined,
+    hooks: isClassComponent ? [] : describeHooks(fiber),
+    source: source && {
+      fileName: source.fileName,
+      line0Based: source.lineNumber - 1,
+      column0Based: (source.columnNumber ?? 1) - 1,
+    },
+  };
+}
+
+function findHostFiber(fiber) {
+  const stack = [fiber];
+  while (stack.length > 0) {
+    const current = stack.shift();
+    if (current.tag === HostComponent) {
+      return current;
+    }
+    for (let child = current.child; child; child = child.sibling) {
+      stack.push(child);
+    }
+  }
+  return undefined;
+}
+
+export function getComponentFrame(id) {
+  const fiber = findFiberById(id)?.fiber;
+  const hostFiber = fiber && findHostFiber(fiber);
+  // on Fabric, host fibers keep the public instance under canonical property
+  const stateNode = hostFiber?.stateNode;
+  const instance = stateNode?.canonical?.publicInstance ?? stateNode?.canonical ?? stateNode;
+  if (typeof instance?.measure !== "function") {
+    return Promise.resolve(undefined);
+  }
+  const { width, height } = Dimensions.get("screen");
+  return new Promise((resolve) => {
+    instance.measure((_x, _y, viewWidth, viewHeight, pageX, pageY) => {
+      resolve({
+        x: pageX / width,
+        y: pageY / height,
+        width: viewWidth / width,
+        height: viewHeight / height,
+      });
+    });
+  });
+}
+
+function copyWithSet(object, path, value) {
+  if (path.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  const copy = Array.isArray(object) ? object.slice() : { ...object };
+  copy[key] = copyWithSet(object?.[key], rest, value);
+  return copy;
+}
+
+/**
+ * Overrides value of a prop or state at the given path. The component is re-rendered
+ * with the new value without going through fast refresh.
+ */
+export function overrideComponentValue(id, target, path, value) {
+  const found = findFiberById(id);
+  if (!found) {
+    throw new Error("Component is no longer mounted");
+  }
+  const { renderer, fiber } = found;
+  switch (target.type) {
+    case "props":
+      // renderer exposes the override methods in development builds for the devtools
+      if (!renderer.overrideProps) {
+        throw new Error("Overriding props is not supported by this React version");
+      }
+      renderer.overrideProps(fiber, path, value);
+      break;
+    case "hook":
+      if (!renderer.overrideHookState) {
+        throw new Error("Overriding hooks state is not supported by this React version");
+      }
+      renderer.overrideHookState(fiber, target.index, path, value);
+      break;
+    case "state": {
+      const instance = fiber.stateNode;
+      if (!instance?.setState) {
+        throw new Error("Component doesn't have state");
+      }
+      instance.setState(copyWithSet(instance.state, path, value));
+      break;
+    }
+  }
+  // the update is scheduled, so we wait for it to be applied before reading the new values
+  return new Promise((resolve) => setTimeout(() => resolve(inspectComponent(id)), 0));
+}
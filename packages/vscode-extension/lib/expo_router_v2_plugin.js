@@ -30,8 +30,7 @@ function useRouterPluginMainHook({ onNavigationChange }) {
   }, [pathname, params]);
 
   function requestNavigationChange({ pathname, params }) {
-    router.push(pathname);
-    router.setParams(params);
+    router.push({ pathname, params });
   }
 
   return {
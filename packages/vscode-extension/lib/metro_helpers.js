@@ -25,6 +25,39 @@ function overrideModuleFromAppDir(moduleName, exports) {
 
 const extensionLib = process.env.RADON_IDE_LIB_PATH;
 
+function reportBundleStats(projectRoot, graph, delta) {
+  // The hook is called for every delta computed by metro, including the ones that don't
+  // change anything (e.g. when the bundle is requested again), we skip those.
+  if (
+    !delta.reset &&
+    delta.added.size === 0 &&
+    delta.modified.size === 0 &&
+    delta.deleted.size === 0
+  ) {
+    return;
+  }
+  // Module paths are reported relative to the project root, the same way metro passes them to
+  // the transformer, such that we can match them with the reported transform durations.
+  const modules = [];
+  for (const [modulePath, module] of graph.dependencies) {
+    const size = module.output.reduce((sum, output) => sum + (output.data.code?.length ?? 0), 0);
+    modules.push([path.relative(projectRoot, modulePath), size]);
+  }
+  process.stdout.write(
+    JSON.stringify({
+      type: "RNIDE_bundle_stats",
+      entryPoints: [...graph.entryPoints].map((entry) => path.relative(projectRoot, entry)),
+      modules,
+    })
+  );
+  process.stdout.write("\n");
+}
+
+// matches bundle paths requested by the apps for the default entry point, i.e. "/index.bundle"
+// for react-native CLI projects and ".expo/.virtual-metro-entry.bundle" or "AppEntry.bundle" for Expo
+const DEFAULT_ENTRY_BUNDLE_REGEX =
+  /^\/(index|\.expo\/\.virtual-metro-entry|node_modules\/expo\/AppEntry)\.bundle(?=\?|$)/;
+
 function adaptMetroConfig(config) {
   // We use processorModuleFilter to inject some code into the bundle prelude.
   // This is needed, as we want to configre React DevTools port, which changes with every
@@ -59,9 +92,36 @@ function adaptMetroConfig(config) {
     return origProcessModuleFilter(module);
   };
 
+  // We use serializer hook to report the size of every module included in the bundle, which is
+  // used for bundle statistics.
+  const origSerializerHook = config.serializer.experimentalSerializerHook;
+  config.serializer.experimentalSerializerHook = (graph, delta) => {
+    try {
+      reportBundleStats(config.projectRoot, graph, delta);
+    } catch (e) {
+      // statistics are not critical, we don't want to break the bundling process if they fail
+    }
+    return origSerializerHook?.(graph, delta);
+  };
+
   // We actually need to reset port number here again, because CLI overrides it
-  // thinking that value 0 means "use default port".
-  config.server.port = 0;
+  // thinking that value 0 means "use default port". The port is only fixed when
+  // configured in the launch configuration.
+  config.server.port = parseInt(process.env.RCT_METRO_PORT ?? "0", 10) || 0;
+
+  // When custom entry file is configured, we rewrite requests for the default app bundle
+  // such that the app loads the configured entry point without changes to the native code.
+  if (process.env.RADON_IDE_ENTRY_FILE) {
+    const entryBundlePath = `/${path
+      .relative(config.projectRoot, process.env.RADON_IDE_ENTRY_FILE)
+      .replace(/\\/g, "/")
+      .replace(/\.[cm]?[jt]sx?$/, "")}.bundle`;
+    const origRewriteRequestUrl = config.server.rewriteRequestUrl;
+    config.server.rewriteRequestUrl = (url) => {
+      const rewrittenUrl = origRewriteRequestUrl ? origRewriteRequestUrl(url) : url;
+      return rewrittenUrl.replace(DEFAULT_ENTRY_BUNDLE_REGEX, entryBundlePath);
+    };
+  }
 
   config.watchFolders = [...(config.watchFolders || []), extensionLib];
 
@@ -7,6 +7,7 @@ class JsonReporter {
       event = Object.assign(event, {
         message: event.error.message,
         stack: event.error.stack,
+        errorType: event.error.type || event.error.name,
       });
     }
     process.stdout.write(JSON.stringify(event) + "\n");
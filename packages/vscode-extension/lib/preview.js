@@ -1,17 +1,58 @@
+const { cloneElement, useSyncExternalStore } = require("react");
 const { AppRegistry, SafeAreaView } = require("react-native");
+const { describeValue } = require("./component_tree");
 
 export const PREVIEW_APP_KEY = "RNIDE_preview";
 
 global.__RNIDE_previews ||= new Map();
 
+// props edited in the IDE are kept separately from the registered elements, as those get
+// replaced whenever the file calling preview() is reloaded
+const propOverrides = new Map();
+const propOverridesListeners = new Set();
+
+function subscribeToPropOverrides(listener) {
+  propOverridesListeners.add(listener);
+  return () => propOverridesListeners.delete(listener);
+}
+
+function notifyPropOverridesListeners() {
+  propOverridesListeners.forEach((listener) => listener());
+}
+
+export function overridePreviewProps(previewKey, overrides) {
+  propOverrides.set(previewKey, { ...propOverrides.get(previewKey), ...overrides });
+  notifyPropOverridesListeners();
+}
+
+export function resetPreviewProps(previewKey) {
+  propOverrides.delete(previewKey);
+  notifyPropOverridesListeners();
+}
+
+export function getPreviewProps(previewKey) {
+  const previewData = global.__RNIDE_previews.get(previewKey);
+  if (!previewData || !previewData.component) {
+    return undefined;
+  }
+  const overrides = propOverrides.get(previewKey) ?? {};
+  return {
+    props: describeValue({ ...previewData.component.props, ...overrides }, 0),
+    overriddenProps: Object.keys(overrides),
+  };
+}
+
 export function Preview({ previewKey }) {
+  const overrides = useSyncExternalStore(subscribeToPropOverrides, () =>
+    propOverrides.get(previewKey)
+  );
   const previewData = global.__RNIDE_previews.get(previewKey);
   if (!previewData || !previewData.component) {
     return null;
   }
   return (
     <SafeAreaView style={{ flex: 1, justifyContent: "center", alignItems: "center" }}>
-      {previewData.component}
+      {overrides ? cloneElement(previewData.component, overrides) : previewData.component}
     </SafeAreaView>
   );
 }
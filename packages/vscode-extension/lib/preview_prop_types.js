@@ -0,0 +1,159 @@
+const path = require("path");
+const { parentPort, workerData } = require("worker_threads");
+
+// This script runs in a worker thread started by the extension (see src/utilities/previewPropTypes.ts)
+// as building the program of the app's project may take seconds and would block the extension host.
+// The language service is kept between requests such that only the changed files are parsed again.
+const { appRoot } = workerData;
+
+// we use the TypeScript version the app depends on instead of bundling it with the extension,
+// for apps that don't use TypeScript the prop types are just not available
+function loadTypeScript() {
+  try {
+    return require(require.resolve("typescript", { paths: [appRoot] }));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+const typescript = loadTypeScript();
+
+// TypeScript uses forward slashes in file names on all platforms
+function normalizeFileName(fileName) {
+  return fileName.split(path.sep).join("/");
+}
+
+function getCompilerOptions() {
+  const configPath = typescript.findConfigFile(appRoot, typescript.sys.fileExists);
+  if (!configPath) {
+    return { jsx: typescript.JsxEmit.ReactJSX, allowJs: true };
+  }
+  const { config } = typescript.readConfigFile(configPath, typescript.sys.readFile);
+  const { options } = typescript.parseJsonConfigFileContent(
+    config,
+    typescript.sys,
+    path.dirname(configPath)
+  );
+  return options;
+}
+
+let languageService;
+let projectVersion = 0;
+const rootFileNames = new Set();
+// versions of the files changed since the language service was created
+const fileVersions = new Map();
+
+function getLanguageService() {
+  if (languageService) {
+    return languageService;
+  }
+  const compilerOptions = getCompilerOptions();
+  const host = {
+    getProjectVersion: () => String(projectVersion),
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [...rootFileNames],
+    getScriptVersion: (fileName) => String(fileVersions.get(fileName) ?? 0),
+    getScriptSnapshot: (fileName) => {
+      const text = typescript.sys.readFile(fileName);
+      return text === undefined ? undefined : typescript.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => appRoot,
+    getDefaultLibFileName: (options) => typescript.getDefaultLibFilePath(options),
+    fileExists: typescript.sys.fileExists,
+    readFile: typescript.sys.readFile,
+    readDirectory: typescript.sys.readDirectory,
+    directoryExists: typescript.sys.directoryExists,
+    getDirectories: typescript.sys.getDirectories,
+  };
+  languageService = typescript.createLanguageService(host, typescript.createDocumentRegistry());
+  return languageService;
+}
+
+// finds the JSX element passed to preview() call, elements are identified by the line they start at
+function findPreviewElement(sourceFile, line0Based) {
+  let result;
+  function visit(node) {
+    if (result) {
+      return;
+    }
+    if (typescript.isJsxSelfClosingElement(node) || typescript.isJsxOpeningElement(node)) {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      if (line === line0Based) {
+        result = node;
+        return;
+      }
+    }
+    typescript.forEachChild(node, visit);
+  }
+  visit(sourceFile);
+  return result;
+}
+
+function isDeclaredInApp(symbol) {
+  // props inherited from library types (i.e. ViewProps) would flood the list, so we only
+  // include the ones declared in the app's code
+  return (symbol.declarations ?? []).some(
+    (declaration) => !declaration.getSourceFile().fileName.includes("node_modules")
+  );
+}
+
+function readPropTypes(fileName, line0Based) {
+  if (!typescript) {
+    return undefined;
+  }
+  if (!rootFileNames.has(fileName)) {
+    rootFileNames.add(fileName);
+    projectVersion++;
+  }
+  const program = getLanguageService().getProgram();
+  const sourceFile = program?.getSourceFile(fileName);
+  const element = sourceFile && findPreviewElement(sourceFile, line0Based);
+  if (!element) {
+    return undefined;
+  }
+  const checker = program.getTypeChecker();
+  const propsType = checker.getContextualType(element.attributes);
+  if (!propsType) {
+    return undefined;
+  }
+  return checker
+    .getPropertiesOfType(propsType)
+    .filter((symbol) => isDeclaredInApp(symbol) && !["key", "ref"].includes(symbol.name))
+    .map((symbol) => {
+      const type = checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(symbol, element));
+      const isStringUnion =
+        type.isUnion() && type.types.every((member) => member.isStringLiteral());
+      return {
+        name: symbol.name,
+        type: checker.typeToString(type),
+        options: isStringUnion ? type.types.map((member) => member.value) : undefined,
+      };
+    });
+}
+
+parentPort.on("message", (message) => {
+  switch (message.type) {
+    case "getPropTypes":
+      try {
+        const propTypes = readPropTypes(normalizeFileName(message.fileName), message.line0Based);
+        parentPort.postMessage({ requestId: message.requestId, propTypes });
+      } catch (e) {
+        parentPort.postMessage({ requestId: message.requestId, error: e.message });
+      }
+      break;
+    case "fileChanged": {
+      const fileName = normalizeFileName(message.fileName);
+      fileVersions.set(fileName, (fileVersions.get(fileName) ?? 0) + 1);
+      projectVersion++;
+      break;
+    }
+    case "projectChanged":
+      // files were added or removed, or the config changed, which affects module resolution
+      // and compiler options, so we start over with a new language service
+      languageService?.dispose();
+      languageService = undefined;
+      fileVersions.clear();
+      projectVersion++;
+      break;
+  }
+});
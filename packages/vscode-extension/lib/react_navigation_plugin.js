@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+
+// Ref of the app's NavigationContainer, it is set by the wrapped container render function
+// as the container doesn't expose its instance in any other way.
+let navigationRef = null;
+const navigationRefListeners = new Set();
+
+function subscribeToNavigationRef(listener) {
+  navigationRefListeners.add(listener);
+  return () => navigationRefListeners.delete(listener);
+}
+
+function getNavigationRef() {
+  return navigationRef;
+}
+
+function setNavigationRef(ref) {
+  navigationRef = ref;
+  navigationRefListeners.forEach((listener) => listener());
+}
+
+/**
+ * Called from the patched NavigationContainer module (see babel_transformer.js), replaces the
+ * render function of the forwardRef component such that we get hold of the container ref
+ * regardless of whether the app passes its own ref.
+ */
+export function wrapNavigationContainer(NavigationContainer) {
+  const render = NavigationContainer?.render;
+  if (typeof render !== "function") {
+    return;
+  }
+  NavigationContainer.render = function RadonNavigationContainer(props, ref) {
+    const instanceRef = useRef(null);
+    // independent containers are used for nested flows like modals, we only track the main one
+    const isIndependent = props.independent;
+    const containerRef = useCallback(
+      (instance) => {
+        if (typeof ref === "function") {
+          ref(instance);
+        } else if (ref) {
+          ref.current = instance;
+        }
+        if (isIndependent) {
+          return;
+        }
+        if (instance) {
+          instanceRef.current = instance;
+          setNavigationRef(instance);
+        } else if (navigationRef === instanceRef.current) {
+          setNavigationRef(null);
+        }
+      },
+      [ref, isIndependent]
+    );
+    return render(props, containerRef);
+  };
+}
+
+function computeRouteIdentifier(pathname, params) {
+  try {
+    return pathname + JSON.stringify(params ?? {});
+  } catch (e) {
+    // params may contain values that can't be serialized, like circular structures
+    return pathname;
+  }
+}
+
+// returns the focused route of each of the nested navigators starting from the root one
+function getFocusedRoutes(state) {
+  const routes = [];
+  for (let current = state; current?.routes?.length > 0; ) {
+    // partial states may not have the index set, in which case the last route is focused
+    const route = current.routes[current.index ?? current.routes.length - 1];
+    routes.push(route);
+    current = route.state;
+  }
+  return routes;
+}
+
+function getNavigationDescriptor(state) {
+  const routes = getFocusedRoutes(state);
+  if (routes.length === 0) {
+    return undefined;
+  }
+  const routeNames = routes.map((route) => route.name);
+  const params = routes[routes.length - 1].params;
+  const pathname = "/" + routeNames.join("/");
+  const displayParams = new URLSearchParams(params).toString();
+  return {
+    name: `${pathname}${displayParams ? `?${displayParams}` : ""}`,
+    pathname,
+    routeNames,
+    params,
+    id: computeRouteIdentifier(pathname, params),
+  };
+}
+
+// lists paths of all screens of the navigators that are currently mounted, navigators nested
+// in screens that weren't rendered yet don't have their state and aren't included
+function getRoutePaths(state, prefix = "") {
+  return (state?.routeNames ?? []).flatMap((name) => {
+    const path = `${prefix}/${name}`;
+    const route = state.routes.find((item) => item.name === name);
+    return [path, ...getRoutePaths(route?.state, path)];
+  });
+}
+
+// nested navigators are reached by passing the screen to open in params of the parent one
+function getNestedParams(routeNames, params) {
+  if (routeNames.length === 0) {
+    return params;
+  }
+  const [screen, ...nestedRouteNames] = routeNames;
+  return { screen, params: getNestedParams(nestedRouteNames, params) };
+}
+
+function requestNavigationChange(ref, { routeNames, pathname, params }) {
+  // descriptors of routes typed in the URL bar only have the pathname
+  const [name, ...nestedRouteNames] = routeNames ?? pathname.split("/").filter(Boolean);
+  if (!name) {
+    return;
+  }
+  ref.navigate(name, getNestedParams(nestedRouteNames, params));
+}
+
+function useReactNavigationPluginMainHook({ onNavigationChange, onNavigationRoutesChange }) {
+  const ref = useSyncExternalStore(subscribeToNavigationRef, getNavigationRef, getNavigationRef);
+
+  useEffect(() => {
+    if (!ref) {
+      return;
+    }
+    let reportedRoutes = undefined;
+    const reportNavigationChange = () => {
+      const state = ref.getRootState();
+      const navigationDescriptor = getNavigationDescriptor(state);
+      navigationDescriptor && onNavigationChange(navigationDescriptor);
+      const routes = getRoutePaths(state);
+      // the list only changes when new navigators get mounted, so we avoid sending it on every change
+      if (reportedRoutes !== routes.join()) {
+        reportedRoutes = routes.join();
+        onNavigationRoutesChange?.(routes);
+      }
+    };
+    if (ref.isReady()) {
+      reportNavigationChange();
+    }
+    return ref.addListener("state", reportNavigationChange);
+  }, [ref, onNavigationChange, onNavigationRoutesChange]);
+
+  return {
+    getCurrentNavigationDescriptor: () => {
+      const currentRef = getNavigationRef();
+      return currentRef?.isReady() ? getNavigationDescriptor(currentRef.getRootState()) : undefined;
+    },
+    requestNavigationChange: (navigationDescriptor) => {
+      const currentRef = getNavigationRef();
+      if (!currentRef) {
+        return;
+      }
+      if (currentRef.isReady()) {
+        requestNavigationChange(currentRef, navigationDescriptor);
+      } else {
+        const removeListener = currentRef.addListener("state", () => {
+          removeListener();
+          requestNavigationChange(currentRef, navigationDescriptor);
+        });
+      }
+    },
+  };
+}
+
+global.__RNIDE_register_navigation_plugin &&
+  global.__RNIDE_register_navigation_plugin("react-navigation", {
+    mainHook: useReactNavigationPluginMainHook,
+    // routers built on top of React Navigation render the container too and provide their own plugins
+    isFallback: true,
+  });
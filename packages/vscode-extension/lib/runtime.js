@@ -12,12 +12,71 @@ function __RNIDE_breakOnError(error, isFatal) {
   debugger;
 }
 
-global.__RNIDE_onDebuggerReady = function () {
-  // install error handler that breaks into the debugger but only do it when
+function __RNIDE_breakOnPromiseRejection(rejection) {
+  // same as in __RNIDE_breakOnError, the below variables are accessed from the debugger
+  const error = rejection instanceof Error ? rejection : new Error(String(rejection));
+  const message = error.message;
+  const stack = parseErrorStack(error.stack);
+  const isFatal = false;
+  debugger;
+}
+
+let originalErrorHandler = undefined;
+let promiseRejectionTrackingEnabled = false;
+const exceptionBreakpoints = { uncaught: true, promiseRejections: false };
+
+function enablePromiseRejectionTracking() {
+  // We follow the setup from react-native/Libraries/Core/polyfillPromise.js but wrap the default
+  // rejection tracking options such that the unhandled rejection warnings are still reported.
+  // The modules are provided by babel_transformer.js only when the app's React Native has them,
+  // older versions of react-native don't export the tracking options.
+  const optionalModules = global.__RNIDE_optionalModules ?? {};
+  const defaultOptions = optionalModules.promiseRejectionTrackingOptions?.().default ?? {};
+  const options = {
+    ...defaultOptions,
+    allRejections: true,
+    onUnhandled: (id, rejection) => {
+      if (exceptionBreakpoints.promiseRejections) {
+        __RNIDE_breakOnPromiseRejection(rejection);
+      }
+      defaultOptions.onUnhandled?.(id, rejection);
+    },
+  };
+  if (global.HermesInternal?.hasPromise?.()) {
+    global.HermesInternal.enablePromiseRejectionTracker(options);
+  } else if (optionalModules.promiseRejectionTracking) {
+    optionalModules.promiseRejectionTracking().enable(options);
+  } else {
+    return;
+  }
+  promiseRejectionTrackingEnabled = true;
+}
+
+global.__RNIDE_setExceptionBreakpoints = function ({ uncaught, promiseRejections }) {
+  exceptionBreakpoints.uncaught = uncaught;
+  exceptionBreakpoints.promiseRejections = promiseRejections;
+
+  if (originalErrorHandler === undefined) {
+    originalErrorHandler = global.ErrorUtils.getGlobalHandler();
+  }
+  if (uncaught) {
+    global.ErrorUtils.setGlobalHandler(__RNIDE_breakOnError);
+    global.__fbDisableExceptionsManager = true;
+  } else {
+    global.ErrorUtils.setGlobalHandler(originalErrorHandler);
+    global.__fbDisableExceptionsManager = false;
+  }
+
+  if (promiseRejections && !promiseRejectionTrackingEnabled) {
+    enablePromiseRejectionTracking();
+  }
+};
+
+global.__RNIDE_onDebuggerReady = function (exceptionBreakpointsConfig) {
+  // install error handlers that break into the debugger but only do it when
   // debugger is connected. Otherwise we may miss some important initialization
   // errors or even pause the app execution before the debugger is attached.
-  global.ErrorUtils.setGlobalHandler(__RNIDE_breakOnError);
-  global.__fbDisableExceptionsManager = true;
+  global.__RNIDE_setExceptionBreakpoints(exceptionBreakpointsConfig ?? exceptionBreakpoints);
 };
 
 // We add log this trace to diagnose issues with loading runtime in the IDE
@@ -38,6 +97,10 @@ console.log = wrapConsole(console.log);
 console.warn = wrapConsole(console.warn);
 console.error = wrapConsole(console.error);
 console.info = wrapConsole(console.info);
+console.debug = wrapConsole(console.debug);
+// console.table is not wrapped as its second argument is the list of columns to display
+console.group = wrapConsole(console.group);
+console.groupCollapsed = wrapConsole(console.groupCollapsed);
 
 // This variable can be used by external integrations to detect if they are running in the IDE
 global.__RNIDE_enabled = true;
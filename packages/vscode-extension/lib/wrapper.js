@@ -11,6 +11,20 @@ const {
   findNodeHandle,
 } = require("react-native");
 const { storybookPreview } = require("./storybook_helper");
+const {
+  getComponentTree,
+  inspectComponent,
+  getComponentFrame,
+  overrideComponentValue,
+  findComponentIds,
+} = require("./component_tree");
+
+// needs to be kept in sync with DEVTOOLS_PROTOCOL_VERSION in src/common/DevtoolsProtocol.ts
+const DEVTOOLS_PROTOCOL_VERSION = 2;
+
+// identifies this JS runtime in the devtools handshake, the module is evaluated again after
+// reload so the app reconnects as a new client
+const DEVTOOLS_CLIENT_ID = Math.random().toString(36).slice(2);
 
 const navigationPlugins = [];
 export function registerNavigationPlugin(name, plugin) {
@@ -23,6 +37,15 @@ const InternalImports = {
   get PREVIEW_APP_KEY() {
     return require("./preview").PREVIEW_APP_KEY;
   },
+  get getPreviewProps() {
+    return require("./preview").getPreviewProps;
+  },
+  get overridePreviewProps() {
+    return require("./preview").overridePreviewProps;
+  },
+  get resetPreviewProps() {
+    return require("./preview").resetPreviewProps;
+  },
 };
 
 const RNInternals = {
@@ -51,6 +74,20 @@ function getCurrentScene() {
   return RNInternals.SceneTracker.getActiveScene().name;
 }
 
+// URLSearchParams in React Native doesn't implement parsing, so we split the query ourselves
+function parseRoutePath(path) {
+  const [pathname, query] = path.split("?");
+  const params = {};
+  query
+    ?.split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ""] = pair.split("=");
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, " "));
+    });
+  return { pathname: pathname.startsWith("/") ? pathname : `/${pathname}`, params };
+}
+
 function emptyNavigationHook() {
   return {
     getCurrentNavigationDescriptor: () => undefined,
@@ -69,6 +106,28 @@ function useAgentListener(agent, eventName, listener, deps = []) {
   }, [agent, ...deps]);
 }
 
+// handles requests sent by the extension with Devtools.request, the handler returns the
+// result or a promise resolving to it, which is then sent back along with the request id
+function useAgentRequestHandler(agent, requestName, handler, deps = []) {
+  useAgentListener(
+    agent,
+    requestName,
+    ({ requestId, params }) => {
+      Promise.resolve()
+        .then(() => handler(params))
+        .then(
+          (result) => agent._bridge.send("RNIDE_response", { requestId, result }),
+          (error) =>
+            agent._bridge.send("RNIDE_response", {
+              requestId,
+              error: String(error?.message ?? error),
+            })
+        );
+    },
+    deps
+  );
+}
+
 export function AppWrapper({ children, initialProps, fabric }) {
   const rootTag = useContext(RootTagContext);
   const [devtoolsAgent, setDevtoolsAgent] = useState(null);
@@ -93,9 +152,19 @@ export function AppWrapper({ children, initialProps, fabric }) {
     [devtoolsAgent]
   );
 
-  const useNavigationMainHook = navigationPlugins[0]?.plugin.mainHook || emptyNavigationHook;
+  const handleNavigationRoutesChange = useCallback(
+    (routes) => {
+      devtoolsAgent?._bridge.send("RNIDE_navigationRoutes", { routes });
+    },
+    [devtoolsAgent]
+  );
+
+  const navigationPlugin =
+    navigationPlugins.find(({ plugin }) => !plugin.isFallback) ?? navigationPlugins[0];
+  const useNavigationMainHook = navigationPlugin?.plugin.mainHook || emptyNavigationHook;
   const { requestNavigationChange } = useNavigationMainHook({
     onNavigationChange: handleNavigationChange,
+    onNavigationRoutesChange: handleNavigationRoutesChange,
   });
 
   const openPreview = useCallback(
@@ -178,74 +247,116 @@ export function AppWrapper({ children, initialProps, fabric }) {
 
   useAgentListener(
     devtoolsAgent,
-    "RNIDE_inspect",
+    "RNIDE_openRoute",
     (payload) => {
-      const getInspectorDataForViewAtPoint = RNInternals.getInspectorDataForViewAtPoint;
-      const { width, height } = Dimensions.get("screen");
-
-      getInspectorDataForViewAtPoint(
-        mainContainerRef.current,
-        payload.x * width,
-        payload.y * height,
-        (viewData) => {
-          const frame = viewData.frame;
-          const scaledFrame = {
-            x: frame.left / width,
-            y: frame.top / height,
-            width: frame.width / width,
-            height: frame.height / height,
-          };
-          let stackPromise = Promise.resolve(undefined);
-          if (payload.requestStack) {
-            stackPromise = Promise.all(
-              viewData.hierarchy.reverse().map((item) => {
-                const inspectorData = item.getInspectorData((arg) => findNodeHandle(arg));
-                const framePromise = new Promise((resolve, reject) => {
-                  try {
-                    inspectorData.measure((_x, _y, viewWidth, viewHeight, pageX, pageY) => {
-                      resolve({
-                        x: pageX / width,
-                        y: pageY / height,
-                        width: viewWidth / width,
-                        height: viewHeight / height,
+      closePreview().then(() => {
+        requestNavigationChange(parseRoutePath(payload.path));
+      });
+    },
+    [closePreview, requestNavigationChange]
+  );
+
+  useAgentRequestHandler(
+    devtoolsAgent,
+    "RNIDE_inspect",
+    (params) =>
+      new Promise((resolve) => {
+        const getInspectorDataForViewAtPoint = RNInternals.getInspectorDataForViewAtPoint;
+        const { width, height } = Dimensions.get("screen");
+
+        getInspectorDataForViewAtPoint(
+          mainContainerRef.current,
+          params.x * width,
+          params.y * height,
+          (viewData) => {
+            const frame = viewData.frame;
+            const scaledFrame = {
+              x: frame.left / width,
+              y: frame.top / height,
+              width: frame.width / width,
+              height: frame.height / height,
+            };
+            let stackPromise = Promise.resolve(undefined);
+            if (params.requestStack) {
+              const hierarchy = viewData.hierarchy.reverse();
+              const componentIds = findComponentIds(
+                viewData.closestInstance,
+                hierarchy.map((item) => item.name)
+              );
+              stackPromise = Promise.all(
+                hierarchy.map((item, index) => {
+                  const inspectorData = item.getInspectorData((arg) => findNodeHandle(arg));
+                  const framePromise = new Promise((resolve, reject) => {
+                    try {
+                      inspectorData.measure((_x, _y, viewWidth, viewHeight, pageX, pageY) => {
+                        resolve({
+                          x: pageX / width,
+                          y: pageY / height,
+                          width: viewWidth / width,
+                          height: viewHeight / height,
+                        });
                       });
-                    });
-                  } catch (e) {
-                    reject(e);
-                  }
-                });
-
-                return framePromise
-                  .catch(() => undefined)
-                  .then((frame) => {
-                    return inspectorData.source
-                      ? {
-                          componentName: item.name,
-                          source: {
-                            fileName: inspectorData.source.fileName,
-                            line0Based: inspectorData.source.lineNumber - 1,
-                            column0Based: inspectorData.source.columnNumber - 1,
-                          },
-                          frame,
-                        }
-                      : undefined;
+                    } catch (e) {
+                      reject(e);
+                    }
                   });
-              })
-            ).then((stack) => stack?.filter(Boolean));
-          }
-          stackPromise.then((stack) => {
-            devtoolsAgent._bridge.send("RNIDE_inspectData", {
-              id: payload.id,
-              frame: scaledFrame,
-              stack: stack,
+
+                  return framePromise
+                    .catch(() => undefined)
+                    .then((frame) => {
+                      return inspectorData.source
+                        ? {
+                            componentName: item.name,
+                            componentId: componentIds[index],
+                            source: {
+                              fileName: inspectorData.source.fileName,
+                              line0Based: inspectorData.source.lineNumber - 1,
+                              column0Based: inspectorData.source.columnNumber - 1,
+                            },
+                            frame,
+                          }
+                        : undefined;
+                    });
+                })
+              ).then((stack) => stack?.filter(Boolean));
+            }
+            stackPromise.then((stack) => {
+              resolve({ frame: scaledFrame, stack });
             });
-          });
-        }
-      );
-    },
+          }
+        );
+      }),
     [mainContainerRef]
   );
 
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_getComponentTree", () => getComponentTree());
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_inspectComponent", (params) =>
+    inspectComponent(params.id)
+  );
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_getComponentFrame", (params) =>
+    getComponentFrame(params.id)
+  );
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_getPreviewProps", (params) =>
+    InternalImports.getPreviewProps(params.previewId)
+  );
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_overridePreviewProps", (params) => {
+    InternalImports.overridePreviewProps(params.previewId, params.overrides);
+    return InternalImports.getPreviewProps(params.previewId);
+  });
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_resetPreviewProps", (params) => {
+    InternalImports.resetPreviewProps(params.previewId);
+    return InternalImports.getPreviewProps(params.previewId);
+  });
+
+  useAgentRequestHandler(devtoolsAgent, "RNIDE_overrideComponentValue", (params) =>
+    overrideComponentValue(params.id, params.target, params.path, params.value)
+  );
+
   useAgentListener(
     devtoolsAgent,
     "RNIDE_showStorybookStory",
@@ -285,6 +396,8 @@ export function AppWrapper({ children, initialProps, fabric }) {
     if (!!devtoolsAgent && hasLayout) {
       const appKey = getCurrentScene();
       devtoolsAgent._bridge.send("RNIDE_appReady", {
+        protocolVersion: DEVTOOLS_PROTOCOL_VERSION,
+        clientId: DEVTOOLS_CLIENT_ID,
         appKey,
         navigationPlugins: navigationPlugins.map((plugin) => plugin.name),
       });
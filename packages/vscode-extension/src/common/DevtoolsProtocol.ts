@@ -0,0 +1,111 @@
+import {
+  ComponentDetails,
+  ComponentTreeNode,
+  ComponentValueTarget,
+  Frame,
+  InspectDataStackItem,
+  InspectedValue,
+} from "./Project";
+
+// Version of the protocol used between the extension and the runtime injected into the app (lib/wrapper.js).
+// Needs to be bumped whenever the messages below change in a way that isn't backwards compatible, and
+// kept in sync with the value in lib/wrapper.js
+export const DEVTOOLS_PROTOCOL_VERSION = 2;
+
+// events sent by the app runtime to the extension
+export interface DevtoolsAppEventMap {
+  RNIDE_appReady: {
+    clientId?: string; // identifies the JS runtime, missing in runtimes that predate protocol version 2
+    appKey: string;
+    navigationPlugins: string[];
+    protocolVersion?: number; // missing in runtimes that predate protocol versioning
+  };
+  RNIDE_navigationChanged: { displayName: string; id: string };
+  RNIDE_navigationRoutes: { routes: string[] }; // routes known to the navigation plugin
+  RNIDE_fastRefreshStarted: undefined;
+  RNIDE_fastRefreshComplete: undefined;
+  RNIDE_response: DevtoolsResponse;
+}
+
+// events sent by the extension to the app runtime
+export interface DevtoolsIDEEventMap {
+  RNIDE_openPreview: { previewId: string };
+  RNIDE_openUrl: { url: string };
+  RNIDE_openNavigation: { id: string };
+  RNIDE_openRoute: { path: string }; // path with optional query params, e.g. /settings?id=3
+  RNIDE_showStorybookStory: { componentTitle: string; storyName: string };
+}
+
+// requests sent by the extension that the app runtime responds to with RNIDE_response event
+export interface DevtoolsRequestMap {
+  RNIDE_inspect: {
+    params: { x: number; y: number; requestStack: boolean };
+    result: {
+      frame: Frame;
+      stack: Omit<InspectDataStackItem, "hide">[] | undefined;
+    };
+  };
+  RNIDE_getComponentTree: {
+    params: undefined;
+    result: ComponentTreeNode[];
+  };
+  RNIDE_inspectComponent: {
+    params: { id: number };
+    result: ComponentDetails | undefined;
+  };
+  RNIDE_getComponentFrame: {
+    params: { id: number };
+    result: Frame | undefined;
+  };
+  RNIDE_getPreviewProps: {
+    params: { previewId: string };
+    result: PreviewPropsData | undefined;
+  };
+  RNIDE_overridePreviewProps: {
+    params: { previewId: string; overrides: Record<string, unknown> }; // merged with previous overrides
+    result: PreviewPropsData | undefined;
+  };
+  RNIDE_resetPreviewProps: {
+    params: { previewId: string };
+    result: PreviewPropsData | undefined;
+  };
+  RNIDE_overrideComponentValue: {
+    params: { id: number; target: ComponentValueTarget; path: string[]; value: unknown };
+    result: ComponentDetails | undefined;
+  };
+}
+
+// props of the previewed element with the overrides applied
+export type PreviewPropsData = {
+  props: InspectedValue;
+  overriddenProps: string[];
+};
+
+export type DevtoolsRequest<K extends keyof DevtoolsRequestMap = keyof DevtoolsRequestMap> = {
+  requestId: number;
+  params: DevtoolsRequestMap[K]["params"];
+};
+
+export type DevtoolsResponse =
+  | { requestId: number; result: unknown; error?: undefined }
+  | { requestId: number; result?: undefined; error: string };
+
+// events emitted by the devtools server itself when identified clients come and go
+export interface DevtoolsClientEventMap {
+  clientConnected: undefined;
+  clientDisconnected: undefined;
+}
+
+type DevtoolsEventMap = DevtoolsAppEventMap & DevtoolsClientEventMap;
+
+// listener arguments are typed as a union of tuples such that checking the event name narrows the payload.
+// Client id is undefined for events sent by clients that haven't completed the handshake yet.
+export type DevtoolsEventArgs = {
+  [E in keyof DevtoolsEventMap]: [
+    event: E,
+    payload: DevtoolsEventMap[E],
+    clientId: string | undefined
+  ];
+}[keyof DevtoolsEventMap];
+
+export type DevtoolsListener = (...args: DevtoolsEventArgs) => void;
@@ -28,6 +28,13 @@ export type LaunchConfigurationOptions = {
   preview?: {
     waitForAppLaunch?: boolean;
   };
+  metro?: {
+    args?: string[];
+    port?: number;
+    entryFile?: string;
+    host?: string;
+    attachToPort?: number;
+  };
 };
 
 export interface LaunchConfigEventMap {
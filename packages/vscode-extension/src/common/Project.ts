@@ -16,6 +16,53 @@ export type DeviceSettings = {
   showTouches: boolean;
 };
 
+export type BundleErrorDescriptor = {
+  type: string | undefined;
+  message: string;
+  codeFrame: string | undefined;
+  targetModuleName: string | undefined;
+  descriptions: string[];
+  location: { filePath: string; line0Based: number; column0Based: number } | undefined;
+};
+
+export type BundleModuleStats = {
+  path: string; // relative to the project root
+  size: number;
+  transformDurationMs: number | undefined; // undefined when the module was loaded from metro cache
+};
+
+export type BundleStats = {
+  id: number;
+  timestamp: number;
+  entryPoints: string[];
+  modules: BundleModuleStats[];
+  totalSize: number;
+  transformDurationMs: number;
+};
+
+export type BundleStatsHistory = {
+  current: BundleStats | undefined;
+  previous: BundleStats | undefined;
+};
+
+export type MetroLogLevel = "debug" | "info" | "warn" | "error";
+
+export type MetroLogEntry = {
+  id: number;
+  timestamp: number;
+  level: MetroLogLevel;
+  type: string; // metro reporter event type, "output" for lines that aren't reporter events
+  message: string;
+  module: string | undefined;
+};
+
+export type BundlerCrashDescriptor = {
+  lastStderrLines: string[];
+  attempt: number; // number of restart attempts made since the bundler started crashing
+  maxAttempts: number;
+  willRetry: boolean;
+};
+
 export type ProjectState = {
   status:
     | "starting"
@@ -25,9 +72,13 @@ export type ProjectState = {
     | "bundleError"
     | "incrementalBundleError"
     | "debuggerPaused"
-    | "refreshing";
+    | "refreshing"
+    | "bundlerCrashed";
   startupMessage?: string; // Only used when status is "starting"
   stageProgress?: number;
+  bundleError?: BundleErrorDescriptor; // Details of the last bundling error, cleared on the next successful bundle
+  bundlerCrash?: BundlerCrashDescriptor; // Only used when status is "bundlerCrashed"
+  appDisconnected?: boolean; // Set when the app's devtools connection drops until it reconnects
   previewURL: string | undefined;
   selectedDevice: DeviceInfo | undefined;
   previewZoom: ZoomLevelType | undefined; // Preview specific. Consider extracting to different location if we store more preview state
@@ -77,6 +128,7 @@ export type Frame = {
 
 export type InspectDataStackItem = {
   componentName: string;
+  componentId: number | undefined; // id of the component in the component tree, when it could be found
   hide: boolean;
   source: {
     fileName: string;
@@ -96,6 +148,54 @@ export type InspectData = {
   frame: Frame;
 };
 
+export type ComponentTreeNode = {
+  id: number;
+  name: string;
+  children: ComponentTreeNode[];
+};
+
+// serializable description of a value read from the app, objects deeper than the depth limit
+// have undefined entries
+export type InspectedValue =
+  | { type: "string"; value: string }
+  | { type: "number"; value: number }
+  | { type: "boolean"; value: boolean }
+  | { type: "null" }
+  | { type: "undefined" }
+  | { type: "function"; name: string }
+  | { type: "object"; preview: string; entries: [string, InspectedValue][] | undefined }
+  | { type: "other"; description: string };
+
+export type ComponentValueTarget =
+  | { type: "props" }
+  | { type: "state" } // class component state
+  | { type: "hook"; index: number };
+
+export type ComponentDetails = {
+  id: number;
+  name: string;
+  props: InspectedValue;
+  state: InspectedValue | undefined; // only set for class components
+  hooks: { index: number; value: InspectedValue }[]; // state hooks of function components
+  source: { fileName: string; line0Based: number; column0Based: number } | undefined;
+};
+
+export type PreviewProp = {
+  name: string;
+  value: InspectedValue | undefined; // undefined for props only known from the type that the element doesn't set
+  type: string | undefined; // TypeScript type, when it could be read from the source file
+  options: string[] | undefined; // values of string literal union types
+  isOverridden: boolean;
+};
+
+export type NavigationHistoryItem = { displayName: string; id: string };
+
+export type NavigationHistory = {
+  visited: NavigationHistoryItem[]; // most recent first
+  pinned: NavigationHistoryItem[];
+  launchRouteId: string | undefined; // id of the pinned route the app is opened at after launch
+};
+
 export type TouchPoint = {
   xRatio: number;
   yRatio: number;
@@ -106,7 +206,12 @@ export interface ProjectEventMap {
   projectStateChanged: ProjectState;
   deviceSettingsChanged: DeviceSettings;
   navigationChanged: { displayName: string; id: string };
+  navigationRoutesChanged: string[];
+  navigationHistoryChanged: NavigationHistory;
   needsNativeRebuild: void;
+  bundleStatsChanged: BundleStatsHistory;
+  metroLog: MetroLogEntry;
+  metroLogsCleared: void;
 }
 
 export interface ProjectEventListener<T> {
@@ -134,10 +239,24 @@ export interface ProjectInterface {
 
   resumeDebugger(): Promise<void>;
   stepOverDebugger(): Promise<void>;
+  stepIntoDebugger(): Promise<void>;
+  stepOutDebugger(): Promise<void>;
   focusBuildOutput(): Promise<void>;
   focusExtensionLogsOutput(): Promise<void>;
   focusDebugConsole(): Promise<void>;
   openNavigation(navigationItemID: string): Promise<void>;
+  openRoute(path: string): Promise<void>;
+  getNavigationRoutes(): Promise<string[]>;
+  getNavigationHistory(): Promise<NavigationHistory>;
+  pinRoute(item: NavigationHistoryItem): Promise<void>;
+  unpinRoute(id: string): Promise<void>;
+  setLaunchRoute(id: string | undefined): Promise<void>;
+  getPreviewProps(previewId: string): Promise<PreviewProp[] | undefined>;
+  overridePreviewProps(
+    previewId: string,
+    overrides: Record<string, unknown>
+  ): Promise<PreviewProp[] | undefined>;
+  resetPreviewProps(previewId: string): Promise<PreviewProp[] | undefined>;
   openDevMenu(): Promise<void>;
 
   resetAppPermissions(permissionType: AppPermissionType): Promise<void>;
@@ -147,6 +266,10 @@ export interface ProjectInterface {
 
   captureReplay(): Promise<RecordingData>;
 
+  getBundleStats(): Promise<BundleStatsHistory>;
+  getMetroLogs(): Promise<MetroLogEntry[]>;
+  clearMetroLogs(): Promise<void>;
+
   dispatchTouches(touches: Array<TouchPoint>, type: "Up" | "Move" | "Down"): Promise<void>;
   dispatchKeyPress(keyCode: number, direction: "Up" | "Down"): Promise<void>;
   dispatchPaste(text: string): Promise<void>;
@@ -156,6 +279,15 @@ export interface ProjectInterface {
     requestStack: boolean,
     callback: (inspectData: InspectData) => void
   ): Promise<void>;
+  getComponentTree(): Promise<ComponentTreeNode[]>;
+  inspectComponent(id: number): Promise<ComponentDetails | undefined>;
+  getComponentFrame(id: number): Promise<Frame | undefined>;
+  overrideComponentValue(
+    id: number,
+    target: ComponentValueTarget,
+    path: string[],
+    value: unknown
+  ): Promise<ComponentDetails | undefined>;
 
   addListener<K extends keyof ProjectEventMap>(
     eventType: K,
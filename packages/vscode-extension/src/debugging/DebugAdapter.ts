@@ -13,19 +13,29 @@ import {
   Breakpoint,
   Source,
   StackFrame,
+  LoadedSourceEvent,
+  InvalidatedEvent,
 } from "@vscode/debugadapter";
 import { DebugProtocol } from "@vscode/debugprotocol";
 import WebSocket from "ws";
 import { NullablePosition, SourceMapConsumer } from "source-map";
-import { formatMessage } from "./logFormatting";
+import { formatMessage, formatTable } from "./logFormatting";
 import { Logger } from "../Logger";
 import {
   inferDAPScopePresentationHintFromCDPType,
   inferDAPVariableValueForCDPRemoteObject,
+  convertCDPRemoteObjectToCallArgument,
   CDPDebuggerScope,
+  CDPPropertyDescriptor,
   CDPRemoteObject,
 } from "./cdp";
 import { VariableStore } from "./variableStore";
+import { computeBlackboxedRanges, matchesSkipFiles, ScriptPosition } from "./skipFiles";
+import {
+  BreakpointOptions,
+  compileBreakpointCondition,
+  LOGPOINT_MARKER,
+} from "./breakpointConditions";
 
 type ResolveType<T = unknown> = (result: T) => void;
 type RejectType = (error: unknown) => void;
@@ -57,14 +67,94 @@ function typeToCategory(type: string) {
   }
 }
 
+function typeToGroup(type: string) {
+  switch (type) {
+    case "startGroup":
+      return "start";
+    case "startGroupCollapsed":
+      return "startCollapsed";
+    case "endGroup":
+      return "end";
+    default:
+      return undefined;
+  }
+}
+
+const MAX_TABLE_ROWS = 1000;
+const TABLE_VALUES_COLUMN = "Values";
+
+const getBreakpointKey = (() => {
+  let last = 0;
+  return () => ++last;
+})();
+
+type ParsedScript = {
+  scriptId: string;
+  url: string;
+  sourceReference: number;
+  executionContextId: number | undefined;
+  // absolute paths of the original source files when the script comes with a source map
+  originalSources: string[];
+};
+
+type ExceptionBreakpointsConfig = {
+  all: boolean;
+  uncaught: boolean;
+  promiseRejections: boolean;
+};
+
+const EXCEPTION_BREAKPOINT_FILTERS: DebugProtocol.ExceptionBreakpointsFilter[] = [
+  { filter: "all", label: "All exceptions", default: false },
+  { filter: "uncaught", label: "Uncaught exceptions", default: true },
+  { filter: "promiseRejections", label: "Promise rejections", default: false },
+];
+
+// used for reporting pauses before the runtime reports any execution context
+const DEFAULT_THREAD_ID = 1;
+
+// names of the functions from runtime.js that pause the debugger when an error is reported
+const RUNTIME_ERROR_HANDLERS = ["__RNIDE_breakOnError", "__RNIDE_breakOnPromiseRejection"];
+
+function formatStackTrace(stackFrames: StackFrame[]) {
+  return stackFrames
+    .map((frame) => {
+      const location = frame.source?.path
+        ? ` (${frame.source.path}:${frame.line}:${frame.column})`
+        : "";
+      return `    at ${frame.name || "<anonymous>"}${location}`;
+    })
+    .join("\n");
+}
+
 class MyBreakpoint extends Breakpoint {
   public readonly line: number;
   public readonly column: number | undefined;
+  public readonly options: BreakpointOptions;
+  public message: string | undefined;
+  // used to identify the breakpoint in the runtime for hit counts and logpoints, unlike
+  // the id, it is known before the breakpoint is set and doesn't change when it is re-set
+  public readonly key = getBreakpointKey();
   private _id: number | undefined;
-  constructor(verified: boolean, line: number, column?: number, source?: Source) {
+  constructor(
+    verified: boolean,
+    line: number,
+    column?: number,
+    source?: Source,
+    options: BreakpointOptions = {}
+  ) {
     super(verified, line, column, source);
     this.column = column;
     this.line = line;
+    this.options = options;
+  }
+  matches(line: number, column: number | undefined, options: BreakpointOptions) {
+    return (
+      this.line === line &&
+      this.column === column &&
+      this.options.condition === options.condition &&
+      this.options.hitCondition === options.hitCondition &&
+      this.options.logMessage === options.logMessage
+    );
   }
   setId(id: number): void {
     super.setId(id);
@@ -82,19 +172,39 @@ export class DebugAdapter extends DebugSession {
   private connection: WebSocket;
   private sourceMapAliases?: Array<[string, string]>;
   private threads: Array<Thread> = [];
+  private pausedThreadId: number | undefined;
+  // name of the JS runtime this adapter is attached to, used for labelling its threads
+  private runtimeName: string | undefined;
+  // glob patterns of files to skip when stepping, and per-file overrides toggled by the user
+  private skipFiles: string[];
+  private skipFileOverrides = new Map<string, boolean>();
   private sourceMaps: Array<[string, string, SourceMapConsumer, number]> = [];
+  private parsedScripts: ParsedScript[] = [];
+  private lastSourceReference = 0;
   private expoPreludeLineCount: number;
   private linesStartAt1 = true;
   private columnsStartAt1 = true;
 
   private pausedStackFrames: StackFrame[] = [];
   private pausedScopeChains: CDPDebuggerScope[][] = [];
+  private pausedCallFrameIds: string[] = [];
+  // reason reported with the next StoppedEvent, set when pause is triggered by stepping or pause requests
+  private expectedStopReason: "step" | "pause" | undefined;
+  private pausedExceptionInfo: DebugProtocol.ExceptionInfoResponse["body"] | undefined;
+
+  private exceptionBreakpoints: ExceptionBreakpointsConfig = {
+    all: false,
+    uncaught: true,
+    promiseRejections: false,
+  };
 
   constructor(configuration: DebugConfiguration) {
     super();
     this.sourceMapAliases = configuration.sourceMapAliases;
     this.connection = new WebSocket(configuration.websocketAddress);
     this.expoPreludeLineCount = configuration.expoPreludeLineCount;
+    this.runtimeName = configuration.runtimeName;
+    this.skipFiles = configuration.skipFiles ?? [];
 
     this.connection.on("open", () => {
       // the below catch handler is used to ignore errors coming from non critical CDP messages we
@@ -103,7 +213,9 @@ export class DebugAdapter extends DebugSession {
       this.sendCDPMessage("FuseboxClient.setClientMetadata", {}).catch(ignoreError);
       this.sendCDPMessage("Runtime.enable", {});
       this.sendCDPMessage("Debugger.enable", { maxScriptsCacheSize: 100000000 });
-      this.sendCDPMessage("Debugger.setPauseOnExceptions", { state: "none" });
+      this.sendCDPMessage("Debugger.setPauseOnExceptions", {
+        state: this.exceptionBreakpoints.all ? "all" : "none",
+      });
       this.sendCDPMessage("Debugger.setAsyncCallStackDepth", { maxDepth: 32 }).catch(ignoreError);
       this.sendCDPMessage("Debugger.setBlackboxPatterns", { patterns: [] }).catch(ignoreError);
       this.sendCDPMessage("Runtime.runIfWaitingForDebugger", {}).catch(ignoreError);
@@ -134,12 +246,19 @@ export class DebugAdapter extends DebugSession {
         case "Runtime.executionContextCreated":
           const context = message.params.context;
           const threadId = context.id;
-          const threadName = context.name;
+          const threadName = this.runtimeName ?? context.name;
           this.sendEvent(new ThreadEvent("started", threadId));
           this.threads.push(new Thread(threadId, threadName));
           break;
         case "Debugger.scriptParsed":
           const sourceMapURL = message.params.sourceMapURL;
+          const parsedScript: ParsedScript = {
+            scriptId: message.params.scriptId,
+            url: message.params.url,
+            sourceReference: ++this.lastSourceReference,
+            executionContextId: message.params.executionContextId,
+            originalSources: [],
+          };
 
           if (sourceMapURL?.startsWith("data:")) {
             const base64Data = sourceMapURL.split(",")[1];
@@ -154,7 +273,7 @@ export class DebugAdapter extends DebugSession {
 
             if (isMainBundle) {
               this.sendCDPMessage("Runtime.evaluate", {
-                expression: "__RNIDE_onDebuggerReady()",
+                expression: `__RNIDE_onDebuggerReady(${JSON.stringify(this.exceptionBreakpoints)})`,
               });
             }
 
@@ -179,21 +298,39 @@ export class DebugAdapter extends DebugSession {
               lineOffset,
             ]);
             this.updateBreakpointsInSource(message.params.url, consumer);
+
+            parsedScript.originalSources = sourceMap.sources
+              .filter((source: string | null) => !!source)
+              .map((source: string) => this.toAbsoluteFilePath(source));
           }
 
+          this.parsedScripts.push(parsedScript);
+          this.updateBlackboxedRanges(parsedScript);
+          this.getLoadedSources(parsedScript).forEach((source) => {
+            this.sendEvent(new LoadedSourceEvent("new", source));
+          });
+
           this.sendEvent(new InitializedEvent());
           break;
         case "Debugger.paused":
           this.handleDebuggerPaused(message);
           break;
         case "Debugger.resumed":
-          this.sendEvent(new ContinuedEvent(this.threads[0].id));
+          // call frame and scope ids are only valid while paused, so they must not be used for
+          // evaluating expressions or completions after the execution resumes
+          this.pausedScopeChains = [];
+          this.pausedCallFrameIds = [];
+          this.pausedExceptionInfo = undefined;
+          this.sendEvent(new ContinuedEvent(this.pausedThreadId ?? this.getThreadId(undefined)));
+          this.pausedThreadId = undefined;
           break;
         case "Runtime.executionContextsCleared":
           // clear all existing threads, source maps, and variable store
           const allThreads = this.threads;
           this.threads = [];
           this.sourceMaps = [];
+          const allScripts = this.parsedScripts;
+          this.parsedScripts = [];
           this.variableStore.clearReplVariables();
           this.variableStore.clearCDPVariables();
 
@@ -201,6 +338,11 @@ export class DebugAdapter extends DebugSession {
           allThreads.forEach((thread) => {
             this.sendEvent(new ThreadEvent("exited", thread.id));
           });
+          allScripts.forEach((script) => {
+            this.getLoadedSources(script).forEach((source) => {
+              this.sendEvent(new LoadedSourceEvent("removed", source));
+            });
+          });
 
           // send event to clear console
           this.sendEvent(new OutputEvent("\x1b[2J", "console"));
@@ -215,65 +357,194 @@ export class DebugAdapter extends DebugSession {
   }
 
   private async handleConsoleAPICall(message: any) {
-    // We wrap console calls and add stack information as last three arguments, however
-    // some logs may baypass that, especially when printed in initialization phase, so we
-    // need to detect whether the wrapper has added the stack info or not
-    // We check if there are more than 3 arguments, and if the last one is a number
     // We filter out logs that start with __RNIDE_INTERNAL as those are messages
     // used by IDE for tracking the app state and should not appear in the VSCode
     // console.
-    const argsLen = message.params.args.length;
-    let output: OutputEvent;
-    if (argsLen > 0 && message.params.args[0].value === "__RNIDE_INTERNAL") {
+    const type: string = message.params.type;
+    let args: CDPRemoteObject[] = message.params.args;
+    if (args.length > 0 && args[0].type === "string" && args[0].value === "__RNIDE_INTERNAL") {
       // We return here to avoid passing internal logs to the user debug console,
       // but they will still be visible in metro log feed.
       return;
-    } else if (argsLen > 3 && message.params.args[argsLen - 1].type === "number") {
-      // Since console.log stack is extracted from Error, unlike other messages sent over CDP
-      // the line and column numbers are 1-based
-      const [scriptURL, generatedLineNumber1Based, generatedColumn1Based] = message.params.args
-        .slice(-3)
-        .map((v: any) => v.value);
-
-      const { lineNumber1Based, columnNumber0Based, sourceURL } = this.findOriginalPosition(
-        scriptURL,
-        generatedLineNumber1Based,
-        generatedColumn1Based - 1
-      );
+    }
+    if (args.length > 1 && args[0].type === "string" && args[0].value === LOGPOINT_MARKER) {
+      this.sendEvent(await this.createLogpointOutputEvent(message));
+      this.sendEvent(new Event("RNIDE_consoleLog", { category: typeToCategory(type) }));
+      return;
+    }
 
-      const variablesRefDapID = this.createVariableForOutputEvent(message.params.args.slice(0, -3));
+    const location = this.extractConsoleCallLocation(args);
+    if (location) {
+      args = args.slice(0, -3);
+    }
 
-      output = new OutputEvent(
-        (await formatMessage(message.params.args.slice(0, -3))) + "\n",
-        typeToCategory(message.params.type)
-      );
-      output.body = {
-        ...output.body,
-        //@ts-ignore source, line, column and group are valid fields
-        source: new Source(sourceURL, sourceURL),
-        line: this.linesStartAt1 ? lineNumber1Based : lineNumber1Based - 1,
-        column: this.columnsStartAt1 ? columnNumber0Based + 1 : columnNumber0Based,
-        variablesReference: variablesRefDapID,
-      };
+    // table is formatted before the variables are created, as creating them replaces
+    // CDP object ids with DAP ones
+    let text: string;
+    if (type === "table" && args.length > 0 && args[0].type === "object") {
+      text = await this.formatConsoleTable(args[0], args[1]);
     } else {
-      const variablesRefDapID = this.createVariableForOutputEvent(message.params.args);
-
-      output = new OutputEvent(
-        (await formatMessage(message.params.args)) + "\n",
-        typeToCategory(message.params.type)
-      );
-      output.body = {
-        ...output.body,
-        //@ts-ignore source, line, column and group are valid fields
-        variablesReference: variablesRefDapID,
-      };
+      text = await formatMessage(args);
     }
+
+    const output = new OutputEvent(type === "endGroup" ? "" : text + "\n", typeToCategory(type));
+    output.body = {
+      ...output.body,
+      ...location,
+      //@ts-ignore group is a valid field
+      group: typeToGroup(type),
+      variablesReference: args.some((arg) => arg.type === "object")
+        ? this.createVariableForOutputEvent(args)
+        : undefined,
+    };
     this.sendEvent(output);
-    this.sendEvent(
-      new Event("RNIDE_consoleLog", { category: typeToCategory(message.params.type) })
+    if (type !== "endGroup") {
+      this.sendEvent(new Event("RNIDE_consoleLog", { category: typeToCategory(type) }));
+    }
+  }
+
+  private extractConsoleCallLocation(args: CDPRemoteObject[]) {
+    // We wrap console calls and add stack information as last three arguments, however
+    // some logs may bypass that, especially when printed in initialization phase, so we
+    // need to detect whether the wrapper has added the stack info or not.
+    // We check if the last three arguments are script URL followed by two numbers, and either
+    // there are other arguments too or the URL belongs to one of the scripts we know about.
+    if (args.length < 3) {
+      return undefined;
+    }
+    const [scriptURL, generatedLine, generatedColumn] = args.slice(-3);
+    if (
+      scriptURL.type !== "string" ||
+      generatedLine.type !== "number" ||
+      generatedColumn.type !== "number" ||
+      (args.length === 3 && !this.findParsedScript(scriptURL.value))
+    ) {
+      return undefined;
+    }
+
+    // Since console.log stack is extracted from Error, unlike other messages sent over CDP
+    // the line and column numbers are 1-based
+    const position = this.findOriginalPosition(
+      scriptURL.value,
+      generatedLine.value,
+      generatedColumn.value - 1
+    );
+    let source: Source;
+    if (position.isMapped) {
+      source = this.createOriginalSource(position.sourceURL, position.sourceURL);
+    } else {
+      const script = this.findParsedScript(scriptURL.value);
+      source = script
+        ? this.createGeneratedSource(script)
+        : new Source(position.sourceURL, position.sourceURL);
+    }
+    return {
+      source,
+      line: this.linesStartAt1 ? position.lineNumber1Based : position.lineNumber1Based - 1,
+      column: this.columnsStartAt1 ? position.columnNumber0Based + 1 : position.columnNumber0Based,
+    };
+  }
+
+  private async getEnumerableProperties(objectId: string) {
+    const response = await this.sendCDPMessage("Runtime.getProperties", {
+      objectId,
+      ownProperties: true,
+    });
+    return (response.result as CDPPropertyDescriptor[]).filter(
+      (prop) => prop.enumerable !== false && prop.name !== "__proto__"
     );
   }
 
+  private async formatConsoleTable(
+    data: CDPRemoteObject & { type: "object" },
+    columnsFilter: CDPRemoteObject | undefined
+  ) {
+    const rows = (await this.getEnumerableProperties(data.objectId)).slice(0, MAX_TABLE_ROWS);
+    // the optional second argument of console.table restricts the displayed columns
+    const allowedColumns =
+      columnsFilter?.type === "object" && columnsFilter.subtype === "array"
+        ? (await this.getEnumerableProperties(columnsFilter.objectId)).map((item) =>
+            item.value && "value" in item.value ? String(item.value.value) : ""
+          )
+        : undefined;
+    const columns: string[] = allowedColumns ? [...allowedColumns] : [];
+    let hasPrimitiveValues = false;
+    const cells = await Promise.all(
+      rows.map(async (row) => {
+        const rowCells = new Map<string, string>();
+        if (row.value?.type === "object") {
+          for (const prop of await this.getEnumerableProperties(row.value.objectId)) {
+            if (allowedColumns && !allowedColumns.includes(prop.name)) {
+              continue;
+            }
+            if (!columns.includes(prop.name)) {
+              columns.push(prop.name);
+            }
+            rowCells.set(
+              prop.name,
+              prop.value ? inferDAPVariableValueForCDPRemoteObject(prop.value) : "undefined"
+            );
+          }
+        } else {
+          hasPrimitiveValues = true;
+          rowCells.set(
+            TABLE_VALUES_COLUMN,
+            row.value ? inferDAPVariableValueForCDPRemoteObject(row.value) : "undefined"
+          );
+        }
+        return rowCells;
+      })
+    );
+    if (hasPrimitiveValues) {
+      columns.push(TABLE_VALUES_COLUMN);
+    }
+    return formatTable(
+      ["(index)", ...columns],
+      rows.map((row, index) => [
+        row.name,
+        ...columns.map((column) => cells[index].get(column) ?? ""),
+      ])
+    );
+  }
+
+  private async createLogpointOutputEvent(message: any) {
+    // Logpoints call console.log with a marker and the breakpoint key as the first two arguments.
+    // The call goes through the console wrapper, so the location arguments are appended too, but
+    // they point to the evaluated condition and not the breakpoint, hence we drop them and use
+    // the breakpoint's location instead
+    const breakpointKey = message.params.args[1].value;
+    let args = message.params.args.slice(2);
+    if (this.extractConsoleCallLocation(args)) {
+      args = args.slice(0, -3);
+    }
+
+    // the message parts already include the whitespace the user typed, so we don't add separators
+    const output = new OutputEvent(
+      (await formatMessage(args, "")) + "\n",
+      typeToCategory(message.params.type)
+    );
+    output.body = {
+      ...output.body,
+      //@ts-ignore variablesReference is a valid field
+      variablesReference: this.createVariableForOutputEvent(args),
+    };
+
+    for (const [sourcePath, breakpoints] of this.breakpoints) {
+      const bp = breakpoints.find((b) => b.key === breakpointKey);
+      if (bp) {
+        output.body = {
+          ...output.body,
+          //@ts-ignore source, line and column are valid fields
+          source: new Source(sourcePath, sourcePath),
+          line: bp.line,
+          column: bp.column,
+        };
+        break;
+      }
+    }
+    return output;
+  }
+
   private createVariableForOutputEvent(args: CDPRemoteObject[]) {
     // we create empty object that is needed for DAP OutputEvent to display
     // collapsed args properly, the object references the array of args array
@@ -332,6 +603,7 @@ export class DebugAdapter extends DebugSession {
     let sourceURL = "__source__";
     let sourceLine1Based = lineNumber1Based;
     let sourceColumn0Based = columnNumber0Based;
+    let isMapped = false;
 
     this.sourceMaps.forEach(([url, id, consumer, lineOffset]) => {
       // when we identify script by its URL we need to deal with a situation when the URL is sent with a different
@@ -347,6 +619,7 @@ export class DebugAdapter extends DebugSession {
         });
         if (pos.source !== null) {
           sourceURL = pos.source;
+          isMapped = true;
         }
         if (pos.line !== null) {
           sourceLine1Based = pos.line;
@@ -362,18 +635,121 @@ export class DebugAdapter extends DebugSession {
       lineNumber1Based: sourceLine1Based,
       columnNumber0Based: sourceColumn0Based,
       scriptURL,
+      isMapped,
     };
   }
 
+  private findParsedScript(scriptIdOrURL: string) {
+    return this.parsedScripts.find(
+      ({ scriptId, url }) => scriptId === scriptIdOrURL || compareIgnoringHost(url, scriptIdOrURL)
+    );
+  }
+
+  private isSkippedFile(filePath: string) {
+    return this.skipFileOverrides.get(filePath) ?? matchesSkipFiles(filePath, this.skipFiles);
+  }
+
+  private updateBlackboxedRanges(script: ParsedScript) {
+    const sourceMap = this.sourceMaps.find(([_url, scriptId]) => scriptId === script.scriptId);
+    let positions: ScriptPosition[];
+    if (sourceMap) {
+      const [, , consumer, lineOffset] = sourceMap;
+      positions = computeBlackboxedRanges(consumer, lineOffset, (source) =>
+        this.isSkippedFile(this.toAbsoluteFilePath(source))
+      );
+    } else {
+      // scripts without source maps can only be skipped as a whole
+      const skipped = !!script.url && this.isSkippedFile(script.url);
+      positions = skipped ? [{ lineNumber: 0, columnNumber: 0 }] : [];
+    }
+    this.sendCDPMessage("Debugger.setBlackboxedRanges", {
+      scriptId: script.scriptId,
+      positions,
+    }).catch((e) => {
+      Logger.debug("Couldn't set blackboxed ranges", e);
+    });
+  }
+
+  private toggleSkipFile(filePath: string) {
+    this.skipFileOverrides.set(filePath, !this.isSkippedFile(filePath));
+    this.parsedScripts
+      .filter((script) => script.url === filePath || script.originalSources.includes(filePath))
+      .forEach((script) => this.updateBlackboxedRanges(script));
+    // stack frames need to be refreshed as their presentation depends on whether the file is skipped
+    this.sendEvent(new InvalidatedEvent(["stacks"]));
+  }
+
+  private createGeneratedSource(script: ParsedScript) {
+    // scripts are identified by the source reference, such that VSCode requests their content
+    // using sourceRequest instead of trying to open them from the filesystem
+    const name = script.url ? path.basename(script.url.split("?")[0]) : `script ${script.scriptId}`;
+    return new Source(name, undefined, script.sourceReference, "generated");
+  }
+
+  private createOriginalSource(scriptURL: string, sourceURL: string) {
+    const source = new Source(scriptURL, sourceURL);
+    if (this.isSkippedFile(sourceURL)) {
+      return Object.assign(source, { presentationHint: "deemphasize" as const });
+    }
+    return source;
+  }
+
+  private getLoadedSources(script: ParsedScript): Source[] {
+    if (script.originalSources.length > 0) {
+      return script.originalSources.map((sourcePath) =>
+        this.createOriginalSource(path.basename(sourcePath), sourcePath)
+      );
+    }
+    return [this.createGeneratedSource(script)];
+  }
+
+  private createStackFrame(
+    index: number,
+    name: string,
+    scriptIdOrURL: string,
+    lineNumber1Based: number,
+    columnNumber0Based: number
+  ) {
+    const position = this.findOriginalPosition(scriptIdOrURL, lineNumber1Based, columnNumber0Based);
+    let source: Source | undefined;
+    if (position.isMapped) {
+      source = this.createOriginalSource(position.scriptURL, position.sourceURL);
+    } else {
+      // when the position can't be mapped to the original file, we point to the generated code instead
+      const script = this.findParsedScript(scriptIdOrURL);
+      source = script && this.createGeneratedSource(script);
+    }
+    const frame = new StackFrame(
+      index,
+      name,
+      source,
+      this.linesStartAt1 ? position.lineNumber1Based : position.lineNumber1Based - 1,
+      this.columnsStartAt1 ? position.columnNumber0Based + 1 : position.columnNumber0Based
+    );
+    if (!source) {
+      frame.presentationHint = "subtle";
+    }
+    return frame;
+  }
+
   private async handleDebuggerPaused(message: any) {
     // We reset the paused* variables to lifecycle of objects references in DAP. https://microsoft.github.io/debug-adapter-protocol//overview.html#lifetime-of-objects-references
     this.pausedStackFrames = [];
     this.pausedScopeChains = [];
+    this.pausedCallFrameIds = [];
+    this.pausedExceptionInfo = undefined;
+
+    const expectedStopReason = this.expectedStopReason;
+    this.expectedStopReason = undefined;
+    const threadId = this.getThreadId(message.params.callFrames[0]?.location.scriptId);
+    this.pausedThreadId = threadId;
 
     if (
       message.params.reason === "other" &&
-      message.params.callFrames[0].functionName === "__RNIDE_breakOnError"
+      RUNTIME_ERROR_HANDLERS.includes(message.params.callFrames[0].functionName)
     ) {
+      const isPromiseRejection =
+        message.params.callFrames[0].functionName === "__RNIDE_breakOnPromiseRejection";
       // this is a workaround for an issue with hermes which does not provide a full stack trace
       // when it pauses due to the uncaught exception. Instead, we trigger debugger pause from exception
       // reporting handler, and access the actual error's stack trace from local variable
@@ -419,46 +795,82 @@ export class DebugAdapter extends DebugSession {
             const genColumn1Based = parseInt(
               stackObjProperties.find((v) => v.name === "column")?.value || "0"
             );
-            const { sourceURL, lineNumber1Based, columnNumber0Based, scriptURL } =
-              this.findOriginalPosition(genUrl, genLine1Based, genColumn1Based - 1);
-            stackFrames[index] = new StackFrame(
+            stackFrames[index] = this.createStackFrame(
               index,
               methodName,
-              sourceURL ? new Source(scriptURL, sourceURL) : undefined,
-              this.linesStartAt1 ? lineNumber1Based : lineNumber1Based - 1,
-              this.columnsStartAt1 ? columnNumber0Based + 1 : columnNumber0Based
+              genUrl,
+              genLine1Based,
+              genColumn1Based - 1
             );
           }
         })
       );
       this.pausedStackFrames = stackFrames;
-      this.sendEvent(new StoppedEvent("exception", this.threads[0].id, errorMessage));
-      this.sendEvent(new Event("RNIDE_paused", { reason: "exception", isFatal: isFatal }));
+      this.pausedExceptionInfo = {
+        exceptionId: isPromiseRejection ? "Unhandled promise rejection" : "Error",
+        description: errorMessage,
+        breakMode: "unhandled",
+        details: {
+          message: errorMessage,
+          stackTrace: formatStackTrace(stackFrames),
+        },
+      };
+      this.sendEvent(new StoppedEvent("exception", threadId, errorMessage));
+      if (isPromiseRejection) {
+        // unhandled rejections don't break the app, so we present them as a regular pause
+        this.sendEvent(new Event("RNIDE_paused"));
+      } else {
+        this.sendEvent(new Event("RNIDE_paused", { reason: "exception", isFatal: isFatal }));
+      }
     } else {
       this.pausedStackFrames = message.params.callFrames.map((cdpFrame: any, index: number) => {
         const cdpLocation = cdpFrame.location;
-        const { sourceURL, lineNumber1Based, columnNumber0Based, scriptURL } =
-          this.findOriginalPosition(
-            cdpLocation.scriptId,
-            cdpLocation.lineNumber + 1, // cdp line and column numbers are 0-based
-            cdpLocation.columnNumber
-          );
-        return new StackFrame(
+        return this.createStackFrame(
           index,
           cdpFrame.functionName,
-          sourceURL ? new Source(scriptURL, sourceURL) : undefined,
-          this.linesStartAt1 ? lineNumber1Based : lineNumber1Based - 1,
-          this.columnsStartAt1 ? columnNumber0Based + 1 : columnNumber0Based
+          cdpLocation.scriptId,
+          cdpLocation.lineNumber + 1, // cdp line and column numbers are 0-based
+          cdpLocation.columnNumber
         );
       });
       this.pausedScopeChains = message.params.callFrames.map(
         (cdpFrame: any) => cdpFrame.scopeChain
       );
-      this.sendEvent(new StoppedEvent("breakpoint", this.threads[0].id, "Yollo"));
+      this.pausedCallFrameIds = message.params.callFrames.map(
+        (cdpFrame: any) => cdpFrame.callFrameId
+      );
+      if (message.params.reason === "exception" || message.params.reason === "promiseRejection") {
+        // pause caused by "all exceptions" filter, in this case CDP provides the exception object in data field
+        const exception: CDPRemoteObject | undefined = message.params.data;
+        const description = exception ? inferDAPVariableValueForCDPRemoteObject(exception) : "";
+        this.pausedExceptionInfo = {
+          exceptionId: (exception?.type === "object" && exception.className) || "Error",
+          description: description.split("\n")[0],
+          breakMode: "always",
+          details: {
+            message: description.split("\n")[0],
+            stackTrace: formatStackTrace(this.pausedStackFrames),
+          },
+        };
+        this.sendEvent(new StoppedEvent("exception", threadId, description));
+      } else {
+        const hitBreakpoint = message.params.hitBreakpoints?.length > 0;
+        const stopReason = hitBreakpoint ? "breakpoint" : expectedStopReason ?? "breakpoint";
+        this.sendEvent(new StoppedEvent(stopReason, threadId, "Yollo"));
+      }
       this.sendEvent(new Event("RNIDE_paused"));
     }
   }
 
+  private getThreadId(scriptId: string | undefined) {
+    // the runtime may have multiple execution contexts, we report pauses for the one the script belongs to
+    const executionContextId = this.parsedScripts.find(
+      (script) => script.scriptId === scriptId
+    )?.executionContextId;
+    const thread = this.threads.find(({ id }) => id === executionContextId) ?? this.threads[0];
+    return thread?.id ?? DEFAULT_THREAD_ID;
+  }
+
   private cdpMessageId = 0;
   private cdpMessagePromises: Map<number, PromiseHandlers> = new Map();
 
@@ -481,9 +893,23 @@ export class DebugAdapter extends DebugSession {
     this.linesStartAt1 = args.linesStartAt1 || true;
     this.columnsStartAt1 = args.columnsStartAt1 || true;
     response.body = response.body || {};
-    // response.body.supportsConditionalBreakpoints = true;
-    // response.body.supportsHitConditionalBreakpoints = true;
+    response.body.supportsConditionalBreakpoints = true;
+    response.body.supportsHitConditionalBreakpoints = true;
+    response.body.supportsLogPoints = true;
+    response.body.exceptionBreakpointFilters = EXCEPTION_BREAKPOINT_FILTERS;
+    response.body.supportsExceptionInfoRequest = true;
+    response.body.supportsSetVariable = true;
+    response.body.supportsSetExpression = true;
+    response.body.supportsEvaluateForHovers = true;
+    response.body.supportsCompletionsRequest = true;
+    response.body.completionTriggerCharacters = ["."];
+    response.body.supportsLoadedSourcesRequest = true;
     // response.body.supportsFunctionBreakpoints = true;
+    // stepIn, stepOut and pause are part of the base protocol, we only explicitly opt out
+    // of the stepping extensions that CDP has no equivalent for
+    response.body.supportsStepBack = false;
+    response.body.supportsSteppingGranularity = false;
+    response.body.supportsStepInTargetsRequest = false;
     this.sendResponse(response);
   }
 
@@ -521,7 +947,12 @@ export class DebugAdapter extends DebugSession {
     };
   }
 
-  private async setCDPBreakpoint(file: string, line: number, column: number) {
+  private async setCDPBreakpoint(file: string, line: number, column: number, bp: MyBreakpoint) {
+    const condition = compileBreakpointCondition(bp.options, bp.key);
+    if (condition === undefined) {
+      bp.message = `Invalid hit condition: ${bp.options.hitCondition}`;
+      return null;
+    }
     const generatedPos = this.toGeneratedPosition(file, line, column);
     if (generatedPos) {
       const result = await this.sendCDPMessage("Debugger.setBreakpointByUrl", {
@@ -529,7 +960,7 @@ export class DebugAdapter extends DebugSession {
         lineNumber: generatedPos.lineNumber1Based - 1,
         url: generatedPos.source,
         columnNumber: generatedPos.columnNumber0Based,
-        condition: "",
+        condition,
       });
       if (result && result.breakpointId !== undefined) {
         return result.breakpointId as number;
@@ -560,7 +991,8 @@ export class DebugAdapter extends DebugSession {
         const newId = await this.setCDPBreakpoint(
           sourceMapPath,
           this.linesStartAt1 ? bp.line : bp.line + 1,
-          this.columnsStartAt1 ? (bp.column || 1) - 1 : bp.column || 0
+          this.columnsStartAt1 ? (bp.column || 1) - 1 : bp.column || 0,
+          bp
         );
         if (newId !== null) {
           bp.setId(newId);
@@ -581,22 +1013,24 @@ export class DebugAdapter extends DebugSession {
     const previousBreakpoints = this.breakpoints.get(sourcePath) || [];
 
     const breakpoints = (args.breakpoints || []).map((bp) => {
-      const previousBp = previousBreakpoints.find(
-        (prevBp) => prevBp.line === bp.line && prevBp.column === bp.column
+      const options = {
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+        logMessage: bp.logMessage,
+      };
+      const previousBp = previousBreakpoints.find((prevBp) =>
+        prevBp.matches(bp.line, bp.column, options)
       );
       if (previousBp) {
         return previousBp;
       } else {
-        return new MyBreakpoint(false, bp.line, bp.column);
+        return new MyBreakpoint(false, bp.line, bp.column, undefined, options);
       }
     });
 
     // remove old breakpoints
     previousBreakpoints.forEach((bp) => {
-      if (
-        bp.verified &&
-        !breakpoints.find((newBp) => newBp.line === bp.line && newBp.column === bp.column)
-      ) {
+      if (bp.verified && !breakpoints.includes(bp)) {
         this.sendCDPMessage("Debugger.removeBreakpoint", { breakpointId: bp.getId() });
       }
     });
@@ -608,7 +1042,7 @@ export class DebugAdapter extends DebugSession {
         if (bp.verified) {
           return bp;
         } else {
-          const breakpointId = await this.setCDPBreakpoint(sourcePath, bp.line, bp.column || 0);
+          const breakpointId = await this.setCDPBreakpoint(sourcePath, bp.line, bp.column || 0, bp);
           if (breakpointId !== null) {
             bp.verified = true;
             bp.setId(breakpointId);
@@ -627,6 +1061,86 @@ export class DebugAdapter extends DebugSession {
     this.sendResponse(response);
   }
 
+  protected async setExceptionBreakPointsRequest(
+    response: DebugProtocol.SetExceptionBreakpointsResponse,
+    args: DebugProtocol.SetExceptionBreakpointsArguments
+  ): Promise<void> {
+    this.exceptionBreakpoints = {
+      all: args.filters.includes("all"),
+      uncaught: args.filters.includes("uncaught"),
+      promiseRejections: args.filters.includes("promiseRejections"),
+    };
+    // When pausing on all exceptions we rely on the runtime to pause, while uncaught errors and promise
+    // rejections are reported through the handlers installed by runtime.js. This is because react-native
+    // catches all errors with ErrorUtils and hence CDP "uncaught" state would never trigger.
+    try {
+      await this.sendCDPMessage("Debugger.setPauseOnExceptions", {
+        state: this.exceptionBreakpoints.all ? "all" : "none",
+      });
+    } catch (e) {
+      this.sendErrorResponse(
+        response,
+        1,
+        `Failed to set exception breakpoints: ${(e as Error).message}`
+      );
+      return;
+    }
+    // the runtime may not be loaded yet, in which case the config will be passed when __RNIDE_onDebuggerReady is called
+    const config = JSON.stringify(this.exceptionBreakpoints);
+    this.sendCDPMessage("Runtime.evaluate", {
+      expression: `globalThis.__RNIDE_setExceptionBreakpoints && __RNIDE_setExceptionBreakpoints(${config})`,
+    }).catch(() => {});
+    this.sendResponse(response);
+  }
+
+  protected exceptionInfoRequest(
+    response: DebugProtocol.ExceptionInfoResponse,
+    args: DebugProtocol.ExceptionInfoArguments
+  ): void {
+    if (!this.pausedExceptionInfo) {
+      this.sendErrorResponse(response, 1, "Debugger is not paused on an exception");
+      return;
+    }
+    response.body = this.pausedExceptionInfo;
+    this.sendResponse(response);
+  }
+
+  protected loadedSourcesRequest(
+    response: DebugProtocol.LoadedSourcesResponse,
+    args: DebugProtocol.LoadedSourcesArguments
+  ): void {
+    const sources = new Map<string | number, Source>();
+    this.parsedScripts.forEach((script) => {
+      this.getLoadedSources(script).forEach((source) => {
+        // the same original file can be referenced from multiple scripts, we only list it once
+        sources.set(source.path ?? source.sourceReference, source);
+      });
+    });
+    response.body = { sources: Array.from(sources.values()) };
+    this.sendResponse(response);
+  }
+
+  protected async sourceRequest(
+    response: DebugProtocol.SourceResponse,
+    args: DebugProtocol.SourceArguments
+  ): Promise<void> {
+    const sourceReference = args.source?.sourceReference ?? args.sourceReference;
+    const script = this.parsedScripts.find((s) => s.sourceReference === sourceReference);
+    if (!script) {
+      this.sendErrorResponse(response, 1, "Source is no longer available");
+      return;
+    }
+    try {
+      const { scriptSource } = await this.sendCDPMessage("Debugger.getScriptSource", {
+        scriptId: script.scriptId,
+      });
+      response.body = { content: scriptSource, mimeType: "text/javascript" };
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, "Couldn't load the script source");
+    }
+  }
+
   protected threadsRequest(response: DebugProtocol.ThreadsResponse): void {
     response.body = {
       threads: this.threads,
@@ -673,11 +1187,120 @@ export class DebugAdapter extends DebugSession {
     this.sendResponse(response);
   }
 
+  private sendEvaluateMessage(
+    expression: string,
+    callFrameId: string | undefined,
+    extraParams: object = {}
+  ) {
+    // when paused, we evaluate expressions in the context of the selected call frame such that
+    // local and closure variables are accessible, otherwise we fall back to the global context
+    if (callFrameId) {
+      return this.sendCDPMessage("Debugger.evaluateOnCallFrame", {
+        callFrameId,
+        expression,
+        ...extraParams,
+      });
+    }
+    return this.sendCDPMessage("Runtime.evaluate", { expression, ...extraParams });
+  }
+
+  private async evaluateNewValue(expression: string, callFrameId: string | undefined) {
+    const cdpResponse = await this.sendEvaluateMessage(expression, callFrameId);
+    if (cdpResponse.exceptionDetails) {
+      throw new Error(
+        cdpResponse.exceptionDetails.exception?.description ?? cdpResponse.exceptionDetails.text
+      );
+    }
+    return cdpResponse.result as CDPRemoteObject;
+  }
+
+  private findScope(variablesReference: number) {
+    for (let frameIndex = 0; frameIndex < this.pausedScopeChains.length; frameIndex++) {
+      const scopeNumber = this.pausedScopeChains[frameIndex].findIndex(
+        (scope) => this.variableStore.adaptCDPObjectId(scope.object.objectId) === variablesReference
+      );
+      if (scopeNumber !== -1) {
+        return { callFrameId: this.pausedCallFrameIds[frameIndex], scopeNumber };
+      }
+    }
+    return undefined;
+  }
+
+  protected async setVariableRequest(
+    response: DebugProtocol.SetVariableResponse,
+    args: DebugProtocol.SetVariableArguments
+  ): Promise<void> {
+    try {
+      const scope = this.findScope(args.variablesReference);
+      const newValue = await this.evaluateNewValue(
+        args.value,
+        scope?.callFrameId ?? this.pausedCallFrameIds[0]
+      );
+      let variable;
+      if (scope) {
+        // local and closure variables can't be modified as properties of the scope object
+        // and need to be updated using the dedicated debugger method
+        await this.sendCDPMessage("Debugger.setVariableValue", {
+          scopeNumber: scope.scopeNumber,
+          variableName: args.name,
+          newValue: convertCDPRemoteObjectToCallArgument(newValue),
+          callFrameId: scope.callFrameId,
+        });
+        variable = this.variableStore.toVariable(args.name, newValue);
+      } else {
+        variable = await this.variableStore.set(
+          args.variablesReference,
+          args.name,
+          convertCDPRemoteObjectToCallArgument(newValue),
+          (params: object) => {
+            return this.sendCDPMessage("Runtime.callFunctionOn", params);
+          }
+        );
+      }
+      response.body = {
+        value: variable.value,
+        type: newValue.type,
+        variablesReference: variable.variablesReference,
+      };
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to set variable: ${(e as Error).message}`);
+    }
+  }
+
+  protected async setExpressionRequest(
+    response: DebugProtocol.SetExpressionResponse,
+    args: DebugProtocol.SetExpressionArguments
+  ): Promise<void> {
+    try {
+      const callFrameId =
+        args.frameId !== undefined ? this.pausedCallFrameIds[args.frameId] : undefined;
+      const newValue = await this.evaluateNewValue(
+        `${args.expression} = (${args.value})`,
+        callFrameId
+      );
+      const variable = this.variableStore.toVariable(args.expression, newValue);
+      response.body = {
+        value: variable.value,
+        type: newValue.type,
+        variablesReference: variable.variablesReference,
+      };
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to set expression: ${(e as Error).message}`);
+    }
+  }
+
   protected async continueRequest(
     response: DebugProtocol.ContinueResponse,
     args: DebugProtocol.ContinueArguments
   ): Promise<void> {
-    await this.sendCDPMessage("Debugger.resume", { terminateOnResume: false });
+    try {
+      await this.sendCDPMessage("Debugger.resume", { terminateOnResume: false });
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to continue: ${(e as Error).message}`);
+      return;
+    }
     this.sendResponse(response);
     this.sendEvent(new Event("RNIDE_continued"));
   }
@@ -686,8 +1309,52 @@ export class DebugAdapter extends DebugSession {
     response: DebugProtocol.NextResponse,
     args: DebugProtocol.NextArguments
   ): Promise<void> {
-    await this.sendCDPMessage("Debugger.stepOver", {});
-    this.sendResponse(response);
+    this.expectedStopReason = "step";
+    try {
+      await this.sendCDPMessage("Debugger.stepOver", {});
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to step over: ${(e as Error).message}`);
+    }
+  }
+
+  protected async stepInRequest(
+    response: DebugProtocol.StepInResponse,
+    args: DebugProtocol.StepInArguments
+  ): Promise<void> {
+    this.expectedStopReason = "step";
+    try {
+      await this.sendCDPMessage("Debugger.stepInto", {});
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to step into: ${(e as Error).message}`);
+    }
+  }
+
+  protected async stepOutRequest(
+    response: DebugProtocol.StepOutResponse,
+    args: DebugProtocol.StepOutArguments
+  ): Promise<void> {
+    this.expectedStopReason = "step";
+    try {
+      await this.sendCDPMessage("Debugger.stepOut", {});
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to step out: ${(e as Error).message}`);
+    }
+  }
+
+  protected async pauseRequest(
+    response: DebugProtocol.PauseResponse,
+    args: DebugProtocol.PauseArguments
+  ): Promise<void> {
+    this.expectedStopReason = "pause";
+    try {
+      await this.sendCDPMessage("Debugger.pause", {});
+      this.sendResponse(response);
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to pause: ${(e as Error).message}`);
+    }
   }
 
   protected disconnectRequest(
@@ -702,9 +1369,24 @@ export class DebugAdapter extends DebugSession {
     response: DebugProtocol.EvaluateResponse,
     args: DebugProtocol.EvaluateArguments
   ): Promise<void> {
-    const cdpResponse = await this.sendCDPMessage("Runtime.evaluate", {
-      expression: args.expression,
-    });
+    const callFrameId =
+      args.frameId !== undefined ? this.pausedCallFrameIds[args.frameId] : undefined;
+    const isHover = args.context === "hover";
+    let cdpResponse;
+    try {
+      cdpResponse = await this.sendEvaluateMessage(args.expression, callFrameId, {
+        silent: isHover,
+      });
+    } catch (e) {
+      this.sendErrorResponse(response, 1, `Failed to evaluate: ${(e as Error).message}`);
+      return;
+    }
+    if (isHover && cdpResponse.exceptionDetails) {
+      // we don't want to display errors for expressions that can't be evaluated on hover
+      // e.g. when hovering over a variable that is not in the scope of the selected frame
+      this.sendErrorResponse(response, 1, "Couldn't evaluate expression");
+      return;
+    }
     const remoteObject = cdpResponse.result;
     const stringValue = inferDAPVariableValueForCDPRemoteObject(remoteObject);
 
@@ -719,12 +1401,93 @@ export class DebugAdapter extends DebugSession {
     this.sendResponse(response);
   }
 
+  private async getCompletionCandidates(
+    objectExpression: string | undefined,
+    frameId: number | undefined
+  ) {
+    const fetchProperties = (params: object) => {
+      // unlike in variables view, for completions we want to include the inherited properties
+      return this.sendCDPMessage("Runtime.getProperties", { ...params, ownProperties: false });
+    };
+    const callFrameId = frameId !== undefined ? this.pausedCallFrameIds[frameId] : undefined;
+
+    let objectIds: string[] = [];
+    if (objectExpression !== undefined) {
+      // the expression is evaluated as the user types, so we make sure it can't run getters or
+      // proxies with side effects
+      const cdpResponse = await this.sendEvaluateMessage(objectExpression, callFrameId, {
+        silent: true,
+        throwOnSideEffect: true,
+      });
+      if (!cdpResponse.exceptionDetails && cdpResponse.result.type === "object") {
+        objectIds = [cdpResponse.result.objectId];
+      }
+    } else if (frameId !== undefined && this.pausedScopeChains[frameId]) {
+      objectIds = this.pausedScopeChains[frameId].map((scope) => scope.object.objectId);
+    } else {
+      const cdpResponse = await this.sendCDPMessage("Runtime.evaluate", {
+        expression: "globalThis",
+        silent: true,
+      });
+      objectIds = [cdpResponse.result.objectId];
+    }
+
+    const variables = await Promise.all(
+      objectIds.map((objectId) =>
+        this.variableStore.get(this.variableStore.adaptCDPObjectId(objectId), fetchProperties)
+      )
+    );
+    return variables.flat() as DebugProtocol.Variable[];
+  }
+
+  protected async completionsRequest(
+    response: DebugProtocol.CompletionsResponse,
+    args: DebugProtocol.CompletionsArguments
+  ): Promise<void> {
+    const column0Based = this.columnsStartAt1 ? args.column - 1 : args.column;
+    const textBeforeCursor = args.text.slice(0, column0Based);
+    // we support completing identifiers and member expressions using the dot notation, e.g. "foo.bar.ba"
+    const match = textBeforeCursor.match(/(?:([\w$]+(?:\.[\w$]+)*)\.)?([\w$]*)$/);
+    const objectExpression = match?.[1];
+    const prefix = match?.[2] ?? "";
+
+    let targets: DebugProtocol.CompletionItem[] = [];
+    try {
+      const candidates = await this.getCompletionCandidates(objectExpression, args.frameId);
+      const seen = new Set<string>();
+      targets = candidates
+        .filter(({ name }) => {
+          if (seen.has(name) || !name.startsWith(prefix) || !/^[\w$]+$/.test(name)) {
+            return false;
+          }
+          seen.add(name);
+          return true;
+        })
+        .map(({ name, type }) => ({
+          label: name,
+          type: type === "function" ? "function" : objectExpression ? "property" : "variable",
+        }));
+    } catch (e) {
+      Logger.debug("Couldn't resolve completions", e);
+    }
+
+    response.body = { targets };
+    this.sendResponse(response);
+  }
+
   protected customRequest(
     command: string,
     response: DebugProtocol.Response,
     args: any,
     request?: DebugProtocol.Request | undefined
   ): void {
-    Logger.debug(`Custom req ${command} ${args}`);
+    switch (command) {
+      case "RNIDE_toggleSkipFile":
+        this.toggleSkipFile(args.path);
+        this.sendResponse(response);
+        break;
+      default:
+        Logger.debug(`Custom req ${command} ${args}`);
+    }
   }
 }
@@ -1,10 +1,13 @@
 import {
   debug,
+  workspace,
   DebugSessionCustomEvent,
   Disposable,
+  DebugConfiguration,
   DebugSession as VscDebugSession,
 } from "vscode";
-import { Metro } from "../project/metro";
+import { DebuggerRuntime, Metro } from "../project/metro";
+import { Logger } from "../Logger";
 
 export type DebugSessionDelegate = {
   onConsoleLog(event: DebugSessionCustomEvent): void;
@@ -12,20 +15,80 @@ export type DebugSessionDelegate = {
   onDebuggerResumed(event: DebugSessionCustomEvent): void;
 };
 
+function getSkipFilesPatterns() {
+  const configuration = workspace.getConfiguration("RadonIDE");
+  const patterns = [...(configuration.get<string[]>("debugger.skipFiles") ?? [])];
+  if (configuration.get<boolean>("debugger.skipInspectorExcludedFiles")) {
+    const inspectorExcludePattern = configuration.get<string>("inspectorExcludePattern");
+    inspectorExcludePattern?.split(",").forEach((pattern) => {
+      if (pattern.trim()) {
+        patterns.push(pattern.trim());
+      }
+    });
+  }
+  return patterns;
+}
+
+// Metro doesn't notify about new JS runtimes, so we check for runtimes that were created after
+// the debugger started (e.g. when the worklet runtime is initialized lazily) for a short while
+// after the debugger starts and after the app connects again, i.e. after reload
+const SECONDARY_RUNTIMES_LOOKUP_INTERVAL_MS = 3000;
+const SECONDARY_RUNTIMES_LOOKUP_ATTEMPTS = 5;
+
 export class DebugSession implements Disposable {
   private vscSession: VscDebugSession | undefined;
+  // sessions attached to secondary JS runtimes (e.g. reanimated worklets) are started as children
+  // of the main session, we keep track of them to route the events and debugger controls
+  private childSessions: VscDebugSession[] = [];
+  // websocket addresses of the runtimes we attached to or are attaching to
+  private attachedRuntimes = new Set<string>();
+  private pausedSession: VscDebugSession | undefined;
+  private debugConfiguration: DebugConfiguration | undefined;
+  private runtimesLookupTimeout: NodeJS.Timeout | undefined;
+  private runtimesLookupAttemptsLeft = 0;
+  private isRuntimesLookupStopped = false;
   private debugEventsListener: Disposable;
+  private childSessionsListener: Disposable;
+  private terminatedSessionsListener: Disposable;
 
   constructor(private metro: Metro, private delegate: DebugSessionDelegate) {
+    this.childSessionsListener = debug.onDidStartDebugSession((session) => {
+      if (this.vscSession && session.parentSession === this.vscSession) {
+        this.childSessions.push(session);
+      }
+    });
+    this.terminatedSessionsListener = debug.onDidTerminateDebugSession((session) => {
+      if (session === this.vscSession) {
+        // child sessions are stopped together with the main one, so there's nothing to attach to
+        this.stopRuntimesLookup();
+        return;
+      }
+      if (!this.childSessions.includes(session)) {
+        return;
+      }
+      this.childSessions = this.childSessions.filter((child) => child !== session);
+      // the runtime may be created again (e.g. after reload), in which case we want to reattach
+      this.attachedRuntimes.delete(session.configuration.websocketAddress);
+      if (this.pausedSession === session) {
+        this.pausedSession = undefined;
+      }
+    });
     this.debugEventsListener = debug.onDidReceiveDebugSessionCustomEvent((event) => {
+      if (!this.isOwnSession(event.session)) {
+        return;
+      }
       switch (event.event) {
         case "RNIDE_consoleLog":
           this.delegate.onConsoleLog(event);
           break;
         case "RNIDE_paused":
+          this.pausedSession = event.session;
           this.delegate.onDebuggerPaused(event);
           break;
         case "RNIDE_continued":
+          if (this.pausedSession === event.session) {
+            this.pausedSession = undefined;
+          }
           this.delegate.onDebuggerResumed(event);
           break;
         default:
@@ -36,8 +99,21 @@ export class DebugSession implements Disposable {
   }
 
   public dispose() {
+    this.stopRuntimesLookup();
     this.session && debug.stopDebugging(this.session);
     this.debugEventsListener.dispose();
+    this.childSessionsListener.dispose();
+    this.terminatedSessionsListener.dispose();
+  }
+
+  private stopRuntimesLookup() {
+    this.isRuntimesLookupStopped = true;
+    clearTimeout(this.runtimesLookupTimeout);
+  }
+
+  private isOwnSession(session: VscDebugSession) {
+    // events from other debug sessions (e.g. user's own debug configurations) are ignored
+    return session === this.vscSession || this.childSessions.includes(session);
   }
 
   public async start() {
@@ -55,37 +131,148 @@ export class DebugSession implements Disposable {
       });
     }
 
-    const debugStarted = await debug.startDebugging(
-      undefined,
-      {
-        type: "com.swmansion.react-native-debugger",
-        name: "Radon IDE Debugger",
-        request: "attach",
-        websocketAddress: websocketAddress,
-        sourceMapAliases,
-        expoPreludeLineCount: this.metro.expoPreludeLineCount,
-      },
-      {
-        suppressDebugStatusbar: true,
-        suppressDebugView: true,
-        suppressDebugToolbar: true,
-        suppressSaveBeforeStart: true,
-      }
-    );
+    const configuration = {
+      type: "com.swmansion.react-native-debugger",
+      name: "Radon IDE Debugger",
+      request: "attach",
+      websocketAddress: websocketAddress,
+      sourceMapAliases,
+      expoPreludeLineCount: this.metro.expoPreludeLineCount,
+      skipFiles: getSkipFilesPatterns(),
+    };
+    const debugStarted = await debug.startDebugging(undefined, configuration, {
+      suppressDebugStatusbar: true,
+      suppressDebugView: true,
+      suppressDebugToolbar: true,
+      suppressSaveBeforeStart: true,
+    });
+
+    if (!debugStarted) {
+      return false;
+    }
+    this.vscSession = debug.activeDebugSession!;
+    this.debugConfiguration = configuration;
+    if ((await this.attachSecondaryRuntimes(configuration)) === 0) {
+      this.lookupSecondaryRuntimes();
+    }
+    return true;
+  }
 
-    if (debugStarted) {
-      this.vscSession = debug.activeDebugSession!;
-      return true;
+  /**
+   * Checks for new JS runtimes a few times and attaches to them, the lookup stops once a runtime
+   * is attached or after the last attempt.
+   */
+  public lookupSecondaryRuntimes() {
+    // secondary runtimes are only listed as separate pages with the new debugger
+    if (
+      !this.debugConfiguration ||
+      this.isRuntimesLookupStopped ||
+      !this.metro.isUsingNewDebugger
+    ) {
+      return;
     }
-    return false;
+    clearTimeout(this.runtimesLookupTimeout);
+    this.runtimesLookupAttemptsLeft = SECONDARY_RUNTIMES_LOOKUP_ATTEMPTS;
+    this.scheduleRuntimesLookup(this.debugConfiguration);
+  }
+
+  private scheduleRuntimesLookup(configuration: DebugConfiguration) {
+    this.runtimesLookupTimeout = setTimeout(() => {
+      this.runtimesLookupAttemptsLeft--;
+      this.attachSecondaryRuntimes(configuration)
+        .then((attachedCount) => {
+          if (
+            attachedCount === 0 &&
+            this.runtimesLookupAttemptsLeft > 0 &&
+            !this.isRuntimesLookupStopped
+          ) {
+            this.scheduleRuntimesLookup(configuration);
+          }
+        })
+        .catch((e) => {
+          Logger.error("Couldn't attach debugger to secondary JS runtimes", e);
+        });
+    }, SECONDARY_RUNTIMES_LOOKUP_INTERVAL_MS);
+  }
+
+  // resolves with the number of runtimes the debugger got attached to
+  private async attachSecondaryRuntimes(configuration: DebugConfiguration) {
+    let runtimes: DebuggerRuntime[] = [];
+    try {
+      runtimes = await this.metro.getSecondaryDebuggerRuntimes();
+    } catch (e) {
+      Logger.debug("Couldn't fetch the list of secondary JS runtimes", e);
+    }
+    let attachedCount = 0;
+    for (const runtime of runtimes) {
+      if (this.isRuntimesLookupStopped || this.attachedRuntimes.has(runtime.websocketAddress)) {
+        continue;
+      }
+      this.attachedRuntimes.add(runtime.websocketAddress);
+      // each runtime exposes a separate CDP target, so we attach a separate adapter to it.
+      // The sessions are started as children of the main one such that they show up as
+      // separate threads and are stopped together with the main session
+      const started = await debug.startDebugging(
+        undefined,
+        {
+          ...configuration,
+          name: runtime.title,
+          websocketAddress: runtime.websocketAddress,
+          runtimeName: runtime.title,
+        },
+        {
+          parentSession: this.vscSession,
+          compact: true,
+          lifecycleManagedByParent: true,
+          suppressDebugStatusbar: true,
+          suppressDebugView: true,
+          suppressDebugToolbar: true,
+          suppressSaveBeforeStart: true,
+        }
+      );
+      if (started) {
+        attachedCount++;
+      } else {
+        Logger.warn("Couldn't attach debugger to runtime", runtime.title);
+        this.attachedRuntimes.delete(runtime.websocketAddress);
+      }
+    }
+    return attachedCount;
   }
 
   public resumeDebugger() {
-    this.session.customRequest("continue");
+    this.sendCustomRequest(this.controlledSession, "continue");
   }
 
   public stepOverDebugger() {
-    this.session.customRequest("next");
+    this.sendCustomRequest(this.controlledSession, "next");
+  }
+
+  public stepIntoDebugger() {
+    this.sendCustomRequest(this.controlledSession, "stepIn");
+  }
+
+  public stepOutDebugger() {
+    this.sendCustomRequest(this.controlledSession, "stepOut");
+  }
+
+  public toggleSkipFile(filePath: string) {
+    [this.session, ...this.childSessions].forEach((session) => {
+      this.sendCustomRequest(session, "RNIDE_toggleSkipFile", { path: filePath });
+    });
+  }
+
+  private sendCustomRequest(session: VscDebugSession, command: string, args?: object) {
+    // sessions may terminate at any moment (e.g. when the runtime is destroyed), in which case
+    // the request is rejected
+    session.customRequest(command, args).then(undefined, (e) => {
+      Logger.debug(`Debugger request ${command} failed`, e);
+    });
+  }
+
+  // debugger controls apply to the runtime that is currently paused
+  private get controlledSession() {
+    return this.pausedSession ?? this.session;
   }
 
   private get session() {
@@ -0,0 +1,106 @@
+import vm from "vm";
+import assert from "assert";
+import { LOGPOINT_MARKER, compileBreakpointCondition } from "./breakpointConditions";
+
+function createContext(scope: object = {}) {
+  const logs: unknown[][] = [];
+  const context = vm.createContext({ console: { log: (...args: unknown[]) => logs.push(args) } });
+  Object.assign(context, scope);
+  return { context, logs };
+}
+
+function evaluateHits(condition: string, hits: number) {
+  const { context } = createContext();
+  const results: boolean[] = [];
+  for (let i = 0; i < hits; i++) {
+    results.push(vm.runInContext(condition, context));
+  }
+  return results;
+}
+
+test("compileBreakpointCondition() passes the condition through", function () {
+  const condition = compileBreakpointCondition({ condition: "x > 1" }, 1)!;
+
+  assert.equal(vm.runInContext(condition, createContext({ x: 2 }).context), true);
+  assert.equal(vm.runInContext(condition, createContext({ x: 0 }).context), false);
+});
+
+test("compileBreakpointCondition() breaks after the hit count is reached", function () {
+  const condition = compileBreakpointCondition({ hitCondition: "3" }, 1)!;
+
+  assert.deepEqual(evaluateHits(condition, 4), [false, false, true, true]);
+});
+
+test("compileBreakpointCondition() supports hit count operators", function () {
+  const equal = compileBreakpointCondition({ hitCondition: "== 2" }, 1)!;
+  const modulo = compileBreakpointCondition({ hitCondition: "%2" }, 1)!;
+  const lessThan = compileBreakpointCondition({ hitCondition: "<3" }, 1)!;
+
+  assert.deepEqual(evaluateHits(equal, 3), [false, true, false]);
+  assert.deepEqual(evaluateHits(modulo, 4), [false, true, false, true]);
+  assert.deepEqual(evaluateHits(lessThan, 3), [true, true, false]);
+});
+
+test("compileBreakpointCondition() counts hits separately for each breakpoint", function () {
+  const { context } = createContext();
+  const first = compileBreakpointCondition({ hitCondition: "2" }, 1)!;
+  const second = compileBreakpointCondition({ hitCondition: "2" }, 2)!;
+
+  vm.runInContext(first, context);
+
+  assert.equal(vm.runInContext(second, context), false);
+  assert.equal(vm.runInContext(first, context), true);
+});
+
+test("compileBreakpointCondition() rejects invalid hit conditions", function () {
+  assert.equal(compileBreakpointCondition({ hitCondition: "often" }, 1), undefined);
+  assert.equal(compileBreakpointCondition({ hitCondition: "> x" }, 1), undefined);
+});
+
+test("compileBreakpointCondition() only checks hit count when the condition is met", function () {
+  const { context } = createContext({ x: 0 });
+  const condition = compileBreakpointCondition({ condition: "x > 0", hitCondition: "2" }, 1)!;
+
+  assert.equal(vm.runInContext(condition, context), false);
+  context.x = 1;
+  assert.equal(vm.runInContext(condition, context), false);
+  assert.equal(vm.runInContext(condition, context), true);
+});
+
+test("compileBreakpointCondition() logs logpoint messages without pausing", function () {
+  const { context, logs } = createContext({ user: { name: "Ada" }, count: 2 });
+  const condition = compileBreakpointCondition({ logMessage: "Hello {user.name}, {count}x" }, 7)!;
+
+  assert.equal(vm.runInContext(condition, context), false);
+  assert.deepEqual(logs, [[LOGPOINT_MARKER, 7, "Hello ", "Ada", ", ", 2, "x"]]);
+});
+
+test("compileBreakpointCondition() keeps logpoint literals as written", function () {
+  const { context, logs } = createContext({ x: 1 });
+  const condition = compileBreakpointCondition({ logMessage: "  x =  {x}  " }, 1)!;
+
+  vm.runInContext(condition, context);
+
+  assert.deepEqual(logs[0].slice(2), ["  x =  ", 1, "  "]);
+});
+
+test("compileBreakpointCondition() supports nested braces in logpoint expressions", function () {
+  const { context, logs } = createContext({ a: 1 });
+  const condition = compileBreakpointCondition(
+    { logMessage: "obj: {JSON.stringify({ a: { b: a } })} str: {`}${a + 1}{`} {'}'}" },
+    1
+  )!;
+
+  vm.runInContext(condition, context);
+
+  assert.deepEqual(logs[0].slice(2), ["obj: ", '{"a":{"b":1}}', " str: ", "}2{", " ", "}"]);
+});
+
+test("compileBreakpointCondition() treats unmatched and empty braces as text", function () {
+  const { context, logs } = createContext();
+  const condition = compileBreakpointCondition({ logMessage: "empty {} and {unclosed" }, 1)!;
+
+  vm.runInContext(condition, context);
+
+  assert.deepEqual(logs[0].slice(2), ["empty {} and {unclosed"]);
+});
@@ -0,0 +1,116 @@
+export const LOGPOINT_MARKER = "__RNIDE_logpoint";
+
+export type BreakpointOptions = {
+  condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+};
+
+function compileHitCondition(hitCondition: string, hitCountExpression: string) {
+  // DAP doesn't specify the hit condition syntax, we follow the one used by the js-debug
+  // extension: a number optionally preceded by one of the comparison operators, where
+  // a plain number means "break when hit count is greater or equal to" and "%" means
+  // "break every N hits"
+  const match = hitCondition.trim().match(/^(>=|>|<=|<|==|===|%)?\s*(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const operator = match[1] ?? ">=";
+  const count = match[2];
+  switch (operator) {
+    case "%":
+      return `${hitCountExpression} % ${count} === 0`;
+    case "==":
+    case "===":
+      return `${hitCountExpression} === ${count}`;
+    default:
+      return `${hitCountExpression} ${operator} ${count}`;
+  }
+}
+
+function findClosingBrace(text: string, openIndex: number) {
+  // expressions may contain nested braces (object literals, blocks) as well as strings and template
+  // literals which may contain unbalanced braces, hence we keep a stack of the open brackets and quotes
+  const stack = ["{"];
+  for (let i = openIndex + 1; i < text.length; i++) {
+    const char = text[i];
+    const top = stack[stack.length - 1];
+    if (top === '"' || top === "'" || top === "`") {
+      if (char === "\\") {
+        i++;
+      } else if (char === top) {
+        stack.pop();
+      } else if (top === "`" && char === "$" && text[i + 1] === "{") {
+        stack.push("{");
+        i++;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`" || char === "{") {
+      stack.push(char);
+    } else if (char === "}") {
+      stack.pop();
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+function compileLogMessage(logMessage: string, breakpointKey: number) {
+  // logpoint messages use "{expression}" syntax for interpolating values. We split the message into
+  // literal and expression parts and pass them as separate arguments to console.log such that objects
+  // can be expanded in the debug console the same way they are for regular logs. The parts are
+  // concatenated without separators when displayed, so the literals are kept as written
+  const args: string[] = [];
+  let literal = "";
+  let index = 0;
+  while (index < logMessage.length) {
+    const closingIndex = logMessage[index] === "{" ? findClosingBrace(logMessage, index) : -1;
+    const expression = closingIndex !== -1 ? logMessage.slice(index + 1, closingIndex) : "";
+    if (expression.trim().length === 0) {
+      literal += logMessage[index];
+      index++;
+      continue;
+    }
+    if (literal.length > 0) {
+      args.push(JSON.stringify(literal));
+      literal = "";
+    }
+    args.push(`(${expression})`);
+    index = closingIndex + 1;
+  }
+  if (literal.length > 0) {
+    args.push(JSON.stringify(literal));
+  }
+  return `console.log(${[JSON.stringify(LOGPOINT_MARKER), breakpointKey, ...args].join(", ")})`;
+}
+
+/**
+ * Translates DAP breakpoint options into a single condition expression that can be passed to
+ * CDP's Debugger.setBreakpointByUrl. Hit counts are tracked in a global object on the runtime side
+ * keyed by the provided breakpoint key, and logpoints are implemented as conditions that call
+ * console.log and always evaluate to false such that the execution never pauses.
+ * Returns undefined when the hit condition can't be parsed.
+ */
+export function compileBreakpointCondition(options: BreakpointOptions, breakpointKey: number) {
+  const parts: string[] = [];
+  if (options.condition) {
+    parts.push(`(${options.condition})`);
+  }
+  if (options.hitCondition) {
+    const hitCountExpression = `__RNIDE_hits[${breakpointKey}]`;
+    const hitCheck = compileHitCondition(options.hitCondition, hitCountExpression);
+    if (hitCheck === undefined) {
+      return undefined;
+    }
+    parts.push(
+      `(function () { var __RNIDE_hits = globalThis.__RNIDE_breakpointHits || (globalThis.__RNIDE_breakpointHits = {}); ${hitCountExpression} = (${hitCountExpression} || 0) + 1; return ${hitCheck}; })()`
+    );
+  }
+  if (options.logMessage) {
+    parts.push(`(${compileLogMessage(options.logMessage, breakpointKey)}, false)`);
+  }
+  return parts.join(" && ");
+}
@@ -1,3 +1,18 @@
+export type CDPPropertyPreview = {
+  name: string;
+  type: string;
+  subtype?: string;
+  value?: string;
+};
+
+export type CDPObjectPreview = {
+  type: string;
+  subtype?: string;
+  description?: string;
+  overflow: boolean;
+  properties: CDPPropertyPreview[];
+};
+
 export type CDPRemoteObject =
   | {
       type: "undefined";
@@ -10,18 +25,28 @@ export type CDPRemoteObject =
     }
   | {
       type: "function";
+      objectId?: string;
       description?: string;
     }
   | {
       type: "object";
       objectId: string;
       className: string;
+      subtype?: string;
       description?: string;
+      preview?: CDPObjectPreview;
     };
 
 export type CDPPropertyDescriptor = {
   name: string;
   value?: CDPRemoteObject;
+  enumerable?: boolean;
+};
+
+export type CDPCallArgument = {
+  value?: any;
+  unserializableValue?: string;
+  objectId?: string;
 };
 
 export type CDPDebuggerScope = {
@@ -50,6 +75,22 @@ export function inferDAPVariableValueForCDPRemoteObject(cdpValue: CDPRemoteObjec
   }
 }
 
+export function convertCDPRemoteObjectToCallArgument(cdpValue: CDPRemoteObject): CDPCallArgument {
+  switch (cdpValue.type) {
+    case "undefined":
+      // empty call argument represents undefined value
+      return {};
+    case "object":
+    case "function":
+      return { objectId: cdpValue.objectId };
+    default:
+      if (cdpValue.unserializableValue) {
+        return { unserializableValue: cdpValue.unserializableValue };
+      }
+      return { value: cdpValue.value };
+  }
+}
+
 export function inferDAPScopePresentationHintFromCDPType(cdpScopeType: string) {
   // Allowed Values: global, local, with, closure, catch, block, script, eval, module, wasm-expression-stack
   // DAP scope presentation hints can be: 'arguments' | 'locals' | 'registers' | string;
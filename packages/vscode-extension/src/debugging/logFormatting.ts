@@ -1,5 +1,5 @@
 import util from "util";
-import { CDPRemoteObject } from "./cdp";
+import { CDPObjectPreview, CDPPropertyPreview, CDPRemoteObject } from "./cdp";
 
 function format(anything: unknown) {
   const formatted = util.inspect(anything, {
@@ -16,11 +16,41 @@ function format(anything: unknown) {
   return formatted;
 }
 
-export async function formatMessage(args: CDPRemoteObject[]): Promise<string> {
+function formatPropertyPreview(property: CDPPropertyPreview) {
+  if (property.type === "string") {
+    return `'${property.value}'`;
+  }
+  return property.value ?? property.type;
+}
+
+function formatPreview(preview: CDPObjectPreview) {
+  // previews only include a handful of properties, the full object can be inspected
+  // by expanding the variables attached to the output event
+  const isArray = preview.subtype === "array";
+  const entries = preview.properties.map((property) =>
+    isArray
+      ? formatPropertyPreview(property)
+      : `${property.name}: ${formatPropertyPreview(property)}`
+  );
+  if (preview.overflow) {
+    entries.push("…");
+  }
+  if (isArray) {
+    return `[${entries.join(", ")}]`;
+  }
+  const prefix =
+    preview.description && preview.description !== "Object" ? `${preview.description} ` : "";
+  return `${prefix}{${entries.join(", ")}}`;
+}
+
+export async function formatMessage(args: CDPRemoteObject[], separator = " "): Promise<string> {
   return args
     .map((arg) => {
       switch (arg.type) {
         case "object":
+          if (arg.preview && arg.subtype !== "error") {
+            return formatPreview(arg.preview);
+          }
           return format(arg.description || "[Object]");
         case "string":
         case "number":
@@ -32,5 +62,26 @@ export async function formatMessage(args: CDPRemoteObject[]): Promise<string> {
           return format(arg.description || "[Function]");
       }
     })
-    .join(" ");
+    .join(separator);
+}
+
+/**
+ * Renders rows of cells as a text table with box-drawing borders, the same way
+ * console.table output is presented in node.
+ */
+export function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => (row[column] ?? "").length))
+  );
+  const line = (left: string, middle: string, right: string) =>
+    left + widths.map((width) => "─".repeat(width + 2)).join(middle) + right;
+  const formatRow = (cells: string[]) =>
+    "│" + widths.map((width, column) => ` ${(cells[column] ?? "").padEnd(width)} `).join("│") + "│";
+  return [
+    line("┌", "┬", "┐"),
+    formatRow(header),
+    line("├", "┼", "┤"),
+    ...rows.map(formatRow),
+    line("└", "┴", "┘"),
+  ].join("\n");
 }
@@ -0,0 +1,70 @@
+import assert from "assert";
+import { SourceMapConsumer, SourceMapGenerator } from "source-map";
+import { computeBlackboxedRanges, matchesSkipFiles } from "./skipFiles";
+
+// creates a source map where each generated line comes from the source at the same index
+async function createConsumer(sources: string[]) {
+  const generator = new SourceMapGenerator({ file: "index.bundle" });
+  sources.forEach((source, index) => {
+    generator.addMapping({
+      source,
+      original: { line: 1, column: 0 },
+      generated: { line: index + 1, column: 0 },
+    });
+  });
+  return new SourceMapConsumer(generator.toJSON());
+}
+
+test("matchesSkipFiles() matches paths against glob patterns", function () {
+  const patterns = ["**/node_modules/**", "/app/src/design-system/*.tsx"];
+
+  assert.equal(matchesSkipFiles("/app/node_modules/react/index.js", patterns), true);
+  assert.equal(matchesSkipFiles("/app/src/design-system/Button.tsx", patterns), true);
+  assert.equal(matchesSkipFiles("/app/src/screens/Home.tsx", patterns), false);
+  assert.equal(matchesSkipFiles("/app/node_modules/react/index.js", []), false);
+});
+
+test("matchesSkipFiles() matches files in hidden directories", function () {
+  assert.equal(matchesSkipFiles("/app/.yarn/cache/lib.js", ["**/.yarn/**"]), true);
+});
+
+test("computeBlackboxedRanges() returns ranges of the skipped sources", async function () {
+  const consumer = await createConsumer([
+    "/app/index.js",
+    "/app/node_modules/a.js",
+    "/app/node_modules/b.js",
+    "/app/App.tsx",
+    "/app/node_modules/c.js",
+  ]);
+
+  const ranges = computeBlackboxedRanges(consumer, 0, (source) => source.includes("node_modules"));
+
+  assert.deepEqual(ranges, [
+    { lineNumber: 1, columnNumber: 0 },
+    { lineNumber: 3, columnNumber: 0 },
+    { lineNumber: 4, columnNumber: 0 },
+  ]);
+  consumer.destroy();
+});
+
+test("computeBlackboxedRanges() shifts ranges by the line offset", async function () {
+  const consumer = await createConsumer(["/app/node_modules/a.js", "/app/App.tsx"]);
+
+  const ranges = computeBlackboxedRanges(consumer, 10, (source) => source.includes("node_modules"));
+
+  assert.deepEqual(ranges, [
+    { lineNumber: 10, columnNumber: 0 },
+    { lineNumber: 11, columnNumber: 0 },
+  ]);
+  consumer.destroy();
+});
+
+test("computeBlackboxedRanges() returns no ranges when nothing is skipped", async function () {
+  const consumer = await createConsumer(["/app/index.js", "/app/App.tsx"]);
+
+  assert.deepEqual(
+    computeBlackboxedRanges(consumer, 0, () => false),
+    []
+  );
+  consumer.destroy();
+});
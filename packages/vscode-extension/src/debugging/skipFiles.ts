@@ -0,0 +1,50 @@
+import { minimatch } from "minimatch";
+import { SourceMapConsumer } from "source-map";
+
+export type ScriptPosition = {
+  lineNumber: number;
+  columnNumber: number;
+};
+
+export function matchesSkipFiles(filePath: string, patterns: string[]) {
+  return patterns.some((pattern) => minimatch(filePath, pattern, { dot: true }));
+}
+
+/**
+ * The bundle is a single script that contains both the application code and its dependencies, so
+ * skipping files can't be done by script URL. Instead, we use the source map to find the ranges of
+ * the generated code that come from the skipped sources. The returned positions are in the format
+ * expected by CDP's Debugger.setBlackboxedRanges: a sorted list where every even position starts a
+ * skipped range and every odd one ends it.
+ */
+export function computeBlackboxedRanges(
+  consumer: SourceMapConsumer,
+  lineOffset: number,
+  isSkippedSource: (source: string) => boolean
+) {
+  const positions: ScriptPosition[] = [];
+  const skippedSources = new Map<string, boolean>();
+  let inSkippedRange = false;
+  consumer.eachMapping(
+    (mapping) => {
+      if (!mapping.source) {
+        return;
+      }
+      let skipped = skippedSources.get(mapping.source);
+      if (skipped === undefined) {
+        skipped = isSkippedSource(mapping.source);
+        skippedSources.set(mapping.source, skipped);
+      }
+      if (skipped !== inSkippedRange) {
+        inSkippedRange = skipped;
+        positions.push({
+          lineNumber: mapping.generatedLine - 1 + lineOffset,
+          columnNumber: mapping.generatedColumn,
+        });
+      }
+    },
+    undefined,
+    SourceMapConsumer.GENERATED_ORDER
+  );
+  return positions;
+}
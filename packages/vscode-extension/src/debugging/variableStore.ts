@@ -1,5 +1,10 @@
 import { Variable } from "@vscode/debugadapter";
-import { CDPPropertyDescriptor, inferDAPVariableValueForCDPRemoteObject } from "./cdp";
+import {
+  CDPCallArgument,
+  CDPPropertyDescriptor,
+  CDPRemoteObject,
+  inferDAPVariableValueForCDPRemoteObject,
+} from "./cdp";
 
 const getVariableId = (() => {
   let last = 1;
@@ -72,6 +77,50 @@ export class VariableStore {
     return variables;
   }
 
+  /**
+   * Sets a property of an object stored in cdp and returns the updated variable.
+   * @param id VariableId of the object.
+   * @param name name of the property to set.
+   * @param newValue value of the property in a form of cdp call argument.
+   * @param callFunctionOn a method for calling a function on the object in cdp.
+   */
+  public async set(
+    id: number,
+    name: string,
+    newValue: CDPCallArgument,
+    callFunctionOn: (params: object) => Promise<any>
+  ): Promise<Variable> {
+    const cdpObjectId = this.convertDAPObjectIdToCDP(id);
+    if (cdpObjectId === undefined) {
+      throw new Error("Only properties of runtime objects can be modified");
+    }
+    const response = await callFunctionOn({
+      objectId: cdpObjectId,
+      functionDeclaration: "function (name, value) { this[name] = value; return this[name]; }",
+      arguments: [{ value: name }, newValue],
+    });
+    if (response.exceptionDetails) {
+      throw new Error(response.exceptionDetails.exception?.description ?? "Failed to set value");
+    }
+    return this.toVariable(name, response.result);
+  }
+
+  /**
+   * Converts cdp remote object to a variable, registering object ids if needed.
+   */
+  public toVariable(name: string, value: CDPRemoteObject): Variable {
+    const variable = {
+      name,
+      value: inferDAPVariableValueForCDPRemoteObject(value),
+      type: value.type,
+      variablesReference: 0,
+    };
+    if (value.type === "object") {
+      variable.variablesReference = this.adaptCDPObjectId(value.objectId);
+    }
+    return variable;
+  }
+
   /**
    * Returns the id of stored property.
    */
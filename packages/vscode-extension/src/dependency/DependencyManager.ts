@@ -57,6 +57,8 @@ export class DependencyManager implements Disposable, DependencyManagerInterface
       this.checkIOSDirectoryExists();
       this.checkPodsCommandStatus();
       this.checkPodsInstallationStatus();
+    } else {
+      this.reportIOSDependenciesUnavailable();
     }
 
     this.checkNodeCommandStatus();
@@ -198,6 +200,16 @@ export class DependencyManager implements Disposable, DependencyManagerInterface
     }
   }
 
+  private reportIOSDependenciesUnavailable() {
+    // iOS tooling is only available on macOS, on other platforms we report it as
+    // optional and not installed such that it doesn't block Android workflow
+    const unavailable = { status: "notInstalled", isOptional: true } as const;
+    this.emitEvent("xcode", unavailable);
+    this.emitEvent("ios", unavailable);
+    this.emitEvent("cocoaPods", unavailable);
+    this.emitEvent("pods", unavailable);
+  }
+
   private async checkXcodebuildCommandStatus() {
     const isXcodebuildInstalled = await testCommand("xcodebuild -version");
     const isXcrunInstalled = await testCommand("xcrun --version");
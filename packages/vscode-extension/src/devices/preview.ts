@@ -26,7 +26,11 @@ export class Preview implements Disposable {
     const simControllerBinary = path.join(
       extensionContext.extensionPath,
       "dist",
-      Platform.select({ macos: "simulator-server-macos", windows: "simulator-server-windows.exe" })
+      Platform.select({
+        macos: "simulator-server-macos",
+        windows: "simulator-server-windows.exe",
+        linux: "simulator-server-linux",
+      })
     );
 
     Logger.debug(`Launch preview ${simControllerBinary} ${this.args}`);
@@ -16,6 +16,7 @@ import {
 import vscode from "vscode";
 import { TabPanel } from "./panels/Tabpanel";
 import { PreviewCodeLensProvider } from "./providers/PreviewCodeLensProvider";
+import { PreviewsTreeDataProvider } from "./providers/PreviewsTreeDataProvider";
 import { DebugConfigProvider } from "./providers/DebugConfigProvider";
 import { DebugAdapterDescriptorFactory } from "./debugging/DebugAdapterDescriptorFactory";
 import { Logger, enableDevModeLogging } from "./Logger";
@@ -63,8 +64,8 @@ export function deactivate(context: ExtensionContext): undefined {
 export async function activate(context: ExtensionContext) {
   handleUncaughtErrors();
 
-  if (Platform.OS !== "macos" && Platform.OS !== "windows") {
-    window.showErrorMessage("Radon IDE works only on macOS and Windows.", "Dismiss");
+  if (Platform.OS === "unsupported") {
+    window.showErrorMessage("Radon IDE works only on macOS, Windows and Linux.", "Dismiss");
     return;
   }
 
@@ -147,6 +148,7 @@ export async function activate(context: ExtensionContext) {
   context.subscriptions.push(
     commands.registerCommand("RNIDE.showStorybookStory", showStorybookStory)
   );
+  context.subscriptions.push(commands.registerCommand("RNIDE.toggleSkipFile", toggleSkipFile));
 
   async function closeAuxiliaryBar(registeredCommandDisposable: Disposable) {
     registeredCommandDisposable.dispose(); // must dispose to avoid endless loops
@@ -221,6 +223,15 @@ export async function activate(context: ExtensionContext) {
     )
   );
 
+  const previewsTreeDataProvider = new PreviewsTreeDataProvider();
+  context.subscriptions.push(previewsTreeDataProvider);
+  context.subscriptions.push(
+    window.registerTreeDataProvider(PreviewsTreeDataProvider.viewType, previewsTreeDataProvider)
+  );
+  context.subscriptions.push(
+    commands.registerCommand("RNIDE.refreshPreviews", () => previewsTreeDataProvider.refresh())
+  );
+
   context.subscriptions.push(
     workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
       if (event.affectsConfiguration("RadonIDE.panelLocation")) {
@@ -234,7 +245,7 @@ export async function activate(context: ExtensionContext) {
     return;
   }
 
-  if (Platform.OS === "macos") {
+  if (Platform.OS === "macos" || Platform.OS === "linux") {
     try {
       await setupPathEnv(appRoot);
     } catch (error) {
@@ -396,6 +407,16 @@ async function openDevMenu() {
   Project.currentProject?.openDevMenu();
 }
 
+async function toggleSkipFile(stackFrame?: { frameLocation?: { source?: { path?: string } } }) {
+  // when invoked from the call stack view, the command receives the selected stack frame,
+  // otherwise we toggle the file opened in the active editor
+  const filePath =
+    stackFrame?.frameLocation?.source?.path ?? window.activeTextEditor?.document.uri.fsPath;
+  if (filePath) {
+    Project.currentProject?.toggleSkipFile(filePath);
+  }
+}
+
 async function performBiometricAuthorization() {
   Project.currentProject?.sendBiometricAuthorization(true);
 }
@@ -7,13 +7,18 @@ after(() => {
   sinon.restore();
 });
 
-test("Shows error on Linux", async () => {
+test("Activates on Linux", async () => {
   stubLinuxPlatform();
   const { showErrorMessage } = stubMessageBox();
 
   await getExtension().activate();
 
-  assert.ok(showErrorMessage.calledOnceWith("Radon IDE works only on macOS and Windows."));
+  assert.ok(getExtension().isActive);
+  assert.ok(
+    showErrorMessage
+      .getCalls()
+      .every(({ args }) => !String(args[0]).startsWith("Radon IDE works only"))
+  );
 });
 
 function stubLinuxPlatform() {
@@ -0,0 +1,144 @@
+import assert from "assert";
+import { loadLibModule } from "./loadLibModule";
+
+const FUNCTION_COMPONENT = 0;
+const HOST_ROOT = 3;
+const HOST_COMPONENT = 5;
+
+type Fiber = {
+  tag: number;
+  type: unknown;
+  memoizedProps: Record<string, unknown> | null;
+  memoizedState: unknown;
+  stateNode: unknown;
+  child: Fiber | null;
+  sibling: Fiber | null;
+  return: Fiber | null;
+  alternate: Fiber | null;
+};
+
+function createFiber(
+  tag: number,
+  type: unknown,
+  props: Record<string, unknown>,
+  children: Fiber[]
+) {
+  const fiber: Fiber = {
+    tag,
+    type,
+    memoizedProps: props,
+    memoizedState: null,
+    stateNode: null,
+    child: children[0] ?? null,
+    sibling: null,
+    return: null,
+    alternate: null,
+  };
+  children.forEach((child, index) => {
+    child.return = fiber;
+    child.sibling = children[index + 1] ?? null;
+  });
+  return fiber;
+}
+
+// mimics React's double buffering: the new tree reuses the alternates of the current fibers
+// when they exist, otherwise new alternates are created
+function cloneFiber(fiber: Fiber, parent: Fiber | null, update: (clone: Fiber) => void) {
+  const clone = fiber.alternate ?? ({} as Fiber);
+  Object.assign(clone, fiber, { return: parent, alternate: fiber, child: null, sibling: null });
+  fiber.alternate = clone;
+  update(clone);
+  let previous: Fiber | null = null;
+  for (let child = fiber.child; child; child = child.sibling) {
+    const childClone = cloneFiber(child, clone, update);
+    if (previous) {
+      previous.sibling = childClone;
+    } else {
+      clone.child = childClone;
+    }
+    previous = childClone;
+  }
+  return clone;
+}
+
+function createApp() {
+  function Counter() {}
+  const view = createFiber(HOST_COMPONENT, "View", {}, []);
+  view.stateNode = {
+    measure: (callback: (...args: number[]) => void) => callback(0, 0, 50, 20, 10, 40),
+  };
+  const counter = createFiber(FUNCTION_COMPONENT, Counter, { label: "Count" }, [view]);
+  const root = { current: createFiber(HOST_ROOT, null, {}, [counter]) };
+
+  const render = (update: (clone: Fiber) => void = () => {}) => {
+    root.current = cloneFiber(root.current, null, update);
+  };
+  const renderer = {
+    overrideProps: (fiber: Fiber, path: string[], value: unknown) => {
+      // only the current fiber can be updated, the alternate is a leftover of the previous render
+      render((clone) => {
+        if (clone.alternate === fiber) {
+          clone.memoizedProps = { ...clone.memoizedProps, [path[0]]: value };
+        }
+      });
+    },
+  };
+  const hook = {
+    renderers: new Map([[1, renderer]]),
+    getFiberRoots: () => new Set([root]),
+  };
+
+  const componentTree = loadLibModule(
+    "component_tree.js",
+    { "react-native": { Dimensions: { get: () => ({ width: 100, height: 200 }) } } },
+    { __REACT_DEVTOOLS_GLOBAL_HOOK__: hook }
+  );
+  const [{ id }] = componentTree.getComponentTree();
+  return { componentTree, id, render };
+}
+
+function getProps(inspectedComponent: { props: { entries: [string, unknown][] } } | undefined) {
+  return Object.fromEntries(inspectedComponent?.props.entries ?? []);
+}
+
+test("overrideComponentValue() edits the same component twice", async function () {
+  const { componentTree, id } = createApp();
+
+  const first = await componentTree.overrideComponentValue(id, { type: "props" }, ["label"], "A");
+  const second = await componentTree.overrideComponentValue(id, { type: "props" }, ["label"], "B");
+
+  assert.deepEqual(getProps(first), { label: { type: "string", value: "A" } });
+  assert.deepEqual(getProps(second), { label: { type: "string", value: "B" } });
+});
+
+test("inspectComponent() finds components after the app re-renders", function () {
+  const { componentTree, id, render } = createApp();
+
+  render();
+
+  const inspected = componentTree.inspectComponent(id);
+  assert.equal(inspected?.name, "Counter");
+  assert.deepEqual(getProps(inspected), { label: { type: "string", value: "Count" } });
+});
+
+test("getComponentFrame() measures components after the app re-renders", async function () {
+  const { componentTree, id, render } = createApp();
+
+  render();
+  render();
+
+  assert.deepEqual(await componentTree.getComponentFrame(id), {
+    x: 0.1,
+    y: 0.2,
+    width: 0.5,
+    height: 0.1,
+  });
+});
+
+test("getComponentTree() keeps ids of components between renders", function () {
+  const { componentTree, id, render } = createApp();
+
+  render();
+
+  assert.equal(componentTree.getComponentTree()[0].id, id);
+});
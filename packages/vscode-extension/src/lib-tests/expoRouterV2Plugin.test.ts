@@ -0,0 +1,55 @@
+import assert from "assert";
+import { loadLibModule } from "./loadLibModule";
+
+function loadPlugin({ isReady }: { isReady: boolean }) {
+  const pushedRoutes: unknown[] = [];
+  const stateListeners = new Set<() => void>();
+  const navigationRef = {
+    isReady: () => isReady,
+    addListener: (_event: string, listener: () => void) => stateListeners.add(listener),
+    removeListener: (_event: string, listener: () => void) => stateListeners.delete(listener),
+  };
+  const store = {
+    navigationRef,
+    subscribeToRootState: () => () => {},
+    routeInfoSnapshot: () => ({ pathname: "/", params: {} }),
+  };
+  const plugins = new Map<string, { mainHook: Function }>();
+
+  loadLibModule(
+    "expo_router_v2_plugin.js",
+    {
+      "react": {
+        useSyncExternalStore: (_subscribe: unknown, getSnapshot: () => unknown) => getSnapshot(),
+        useEffect: () => {},
+      },
+      "expo-router": { useRouter: () => ({ push: (route: unknown) => pushedRoutes.push(route) }) },
+      "expo-router/src/global-state/router-store": { store },
+    },
+    {
+      __RNIDE_register_navigation_plugin: (name: string, plugin: { mainHook: Function }) =>
+        plugins.set(name, plugin),
+    }
+  );
+  const hook = plugins.get("expo-router")!.mainHook({ onNavigationChange: () => {} });
+  const completeNavigation = () => stateListeners.forEach((listener) => listener());
+  return { hook, pushedRoutes, completeNavigation };
+}
+
+test("expo-router v2 plugin navigates with the route params", function () {
+  const { hook, pushedRoutes } = loadPlugin({ isReady: true });
+
+  hook.requestNavigationChange({ pathname: "/settings/profile", params: { id: "3" } });
+
+  assert.deepEqual(pushedRoutes, [{ pathname: "/settings/profile", params: { id: "3" } }]);
+});
+
+test("expo-router v2 plugin navigates once the navigation is ready", function () {
+  const { hook, pushedRoutes, completeNavigation } = loadPlugin({ isReady: false });
+
+  hook.requestNavigationChange({ pathname: "/settings/profile", params: { id: "3" } });
+  assert.deepEqual(pushedRoutes, []);
+  completeNavigation();
+
+  assert.deepEqual(pushedRoutes, [{ pathname: "/settings/profile", params: { id: "3" } }]);
+});
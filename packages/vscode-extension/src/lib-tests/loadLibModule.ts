@@ -0,0 +1,35 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+const LIB_DIR = path.resolve(__dirname, "../../../lib");
+
+/**
+ * Loads a file from the lib directory, which is bundled with the app by metro. The file is
+ * transpiled to CommonJS and evaluated with the provided modules in place of the app's
+ * dependencies and the provided object as the global scope.
+ */
+export function loadLibModule(
+  fileName: string,
+  modules: Record<string, unknown>,
+  global: Record<string, unknown> = {}
+) {
+  const source = fs.readFileSync(path.join(LIB_DIR, fileName), "utf-8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const module = { exports: {} as Record<string, any> };
+  const requireModule = (name: string) => {
+    if (!(name in modules)) {
+      throw new Error(`Module "${name}" is not provided to ${fileName}`);
+    }
+    return modules[name];
+  };
+  new Function("exports", "require", "module", "global", outputText)(
+    module.exports,
+    requireModule,
+    module,
+    global
+  );
+  return module.exports;
+}
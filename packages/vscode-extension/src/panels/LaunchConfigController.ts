@@ -10,6 +10,7 @@ import { getAppRootFolder } from "../utilities/extensionContext";
 import { findXcodeProject, findXcodeScheme } from "../utilities/xcode";
 import { Logger } from "../Logger";
 import { getIosSourceDir } from "../builders/buildIOS";
+import { validateMetroOptions } from "../utilities/metroOptions";
 
 export class LaunchConfigController implements Disposable, LaunchConfig {
   private config: LaunchConfigurationOptions;
@@ -35,7 +36,10 @@ export class LaunchConfigController implements Disposable, LaunchConfig {
 
       const { android, appRoot, ios, isExpo, metroConfigPath, env } = RNIDEConfiguration;
 
-      return { android, appRoot, ios, isExpo, metroConfigPath, env };
+      // invalid entries are reported when metro starts
+      const { options: metro } = validateMetroOptions(RNIDEConfiguration.metro);
+
+      return { android, appRoot, ios, isExpo, metroConfigPath, env, metro };
     };
 
     this.config = getCurrentConfig();
@@ -6,6 +6,7 @@ import { Logger } from "../Logger";
 import { BuildManager, BuildResult, DisposableBuild } from "../builders/BuildManager";
 import {
   AppPermissionType,
+  ComponentValueTarget,
   DeviceSettings,
   ReloadAction,
   StartupMessage,
@@ -16,14 +17,18 @@ import { DebugSession, DebugSessionDelegate } from "../debugging/DebugSession";
 import { throttle } from "../utilities/throttle";
 import { DependencyManager } from "../dependency/DependencyManager";
 import { getTelemetryReporter } from "../utilities/telemetry";
+import { DevtoolsListener } from "../common/DevtoolsProtocol";
 
 type PreviewReadyCallback = (previewURL: string) => void;
 type StartOptions = { cleanBuild: boolean; previewReadyCallback: PreviewReadyCallback };
 
 export type AppEvent = {
   navigationChanged: { displayName: string; id: string };
+  navigationRoutesChanged: { routes: string[] };
   fastRefreshStarted: undefined;
   fastRefreshComplete: undefined;
+  appConnected: { afterLaunch: boolean }; // afterLaunch is false when the app reconnects, e.g. after JS reload
+  appDisconnected: undefined;
 };
 
 export type EventDelegate = {
@@ -34,13 +39,16 @@ export type EventDelegate = {
 };
 
 export class DeviceSession implements Disposable {
-  private inspectCallID = 7621;
   private maybeBuildResult: BuildResult | undefined;
   private debugSession: DebugSession | undefined;
   private disposableBuild: DisposableBuild<BuildResult> | undefined;
   private buildManager: BuildManager;
   private deviceSettings: DeviceSettings | undefined;
   private isLaunching = true;
+  private isReloadingJs = false;
+  // devtools client of the app launched by this session, other clients (i.e. secondary
+  // runtimes) are ignored and don't receive requests
+  private devtoolsClientId: string | undefined;
 
   private get buildResult() {
     if (!this.maybeBuildResult) {
@@ -58,25 +66,51 @@ export class DeviceSession implements Disposable {
     private readonly eventDelegate: EventDelegate
   ) {
     this.buildManager = new BuildManager(dependencyManager);
-    this.devtools.addListener((event, payload) => {
-      switch (event) {
-        case "RNIDE_appReady":
-          Logger.debug("App ready");
-          break;
-        case "RNIDE_navigationChanged":
-          this.eventDelegate.onAppEvent("navigationChanged", payload);
-          break;
-        case "RNIDE_fastRefreshStarted":
-          this.eventDelegate.onAppEvent("fastRefreshStarted", undefined);
-          break;
-        case "RNIDE_fastRefreshComplete":
-          this.eventDelegate.onAppEvent("fastRefreshComplete", undefined);
-          break;
-      }
-    });
+    this.devtools.addListener(this.devtoolsListener);
   }
 
+  private devtoolsListener: DevtoolsListener = (event, payload, clientId) => {
+    if (event === "RNIDE_appReady" && clientId !== this.devtoolsClientId) {
+      // during launch or reload we adopt the newest client that completes the handshake, as the
+      // socket of the previous runtime may still be open at that point. Otherwise, we only adopt
+      // a new client after the previous one disconnected, i.e. when the app reloads by itself
+      const isExpectingNewClient = this.isLaunching || this.isReloadingJs;
+      if (isExpectingNewClient || !this.devtools.isClientConnected(this.devtoolsClientId)) {
+        Logger.debug("App ready", clientId);
+        this.devtoolsClientId = clientId;
+        this.isReloadingJs = false;
+        // secondary runtimes of the app are created again together with the new client
+        this.debugSession?.lookupSecondaryRuntimes();
+        this.eventDelegate.onAppEvent("appConnected", { afterLaunch: this.isLaunching });
+        return;
+      }
+    }
+    // events from clients that haven't completed the handshake yet (i.e. navigation events sent
+    // before the app finished the initial layout) are let through
+    if (clientId !== undefined && clientId !== this.devtoolsClientId) {
+      return;
+    }
+    switch (event) {
+      case "clientDisconnected":
+        this.eventDelegate.onAppEvent("appDisconnected", undefined);
+        break;
+      case "RNIDE_navigationChanged":
+        this.eventDelegate.onAppEvent("navigationChanged", payload);
+        break;
+      case "RNIDE_navigationRoutes":
+        this.eventDelegate.onAppEvent("navigationRoutesChanged", payload);
+        break;
+      case "RNIDE_fastRefreshStarted":
+        this.eventDelegate.onAppEvent("fastRefreshStarted", undefined);
+        break;
+      case "RNIDE_fastRefreshComplete":
+        this.eventDelegate.onAppEvent("fastRefreshComplete", undefined);
+        break;
+    }
+  };
+
   public dispose() {
+    this.devtools.removeListener(this.devtoolsListener);
     this.debugSession?.dispose();
     this.disposableBuild?.dispose();
     this.device?.dispose();
@@ -92,11 +126,13 @@ export class DeviceSession implements Disposable {
         await this.launchApp();
         return true;
       case "reloadJs":
-        if (this.devtools.hasConnectedClient) {
+        if (this.devtools.isClientConnected(this.devtoolsClientId)) {
+          this.isReloadingJs = true;
           try {
             await this.metro.reload();
             return true;
           } catch (e) {
+            this.isReloadingJs = false;
             Logger.error("Failed to reload JS", e);
           }
         }
@@ -113,11 +149,16 @@ export class DeviceSession implements Disposable {
 
     this.isLaunching = true;
     this.device.stopReplays();
+    // relaunched app connects as a new client
+    this.devtoolsClientId = undefined;
 
     // FIXME: Windows getting stuck waiting for the promise to resolve. This
     // seems like a problem with app connecting to Metro and using embedded
     // bundle instead.
-    const shouldWaitForAppLaunch = getLaunchConfiguration().preview?.waitForAppLaunch !== false;
+    // When attached to external metro, the IDE runtime isn't injected into the bundle
+    // and the app never reports being ready.
+    const shouldWaitForAppLaunch =
+      getLaunchConfiguration().preview?.waitForAppLaunch !== false && !this.metro.isAttached;
     const waitForAppReady = shouldWaitForAppLaunch ? this.devtools.appReady() : Promise.resolve();
 
     this.eventDelegate.onStateChange(StartupMessage.Launching);
@@ -244,6 +285,18 @@ export class DeviceSession implements Disposable {
     this.debugSession?.stepOverDebugger();
   }
 
+  public stepIntoDebugger() {
+    this.debugSession?.stepIntoDebugger();
+  }
+
+  public stepOutDebugger() {
+    this.debugSession?.stepOutDebugger();
+  }
+
+  public toggleSkipFile(filePath: string) {
+    this.debugSession?.toggleSkipFile(filePath);
+  }
+
   public async resetAppPermissions(permissionType: AppPermissionType) {
     if (this.maybeBuildResult) {
       return this.device.resetAppPermissions(permissionType, this.maybeBuildResult);
@@ -273,25 +326,45 @@ export class DeviceSession implements Disposable {
     return this.device.sendPaste(text);
   }
 
-  public inspectElementAt(
-    xRatio: number,
-    yRatio: number,
-    requestStack: boolean,
-    callback: (inspectData: any) => void
+  public inspectElementAt(xRatio: number, yRatio: number, requestStack: boolean) {
+    return this.devtools.request(
+      "RNIDE_inspect",
+      { x: xRatio, y: yRatio, requestStack },
+      this.devtoolsClientId
+    );
+  }
+
+  public getComponentTree() {
+    return this.devtools.request("RNIDE_getComponentTree", undefined, this.devtoolsClientId);
+  }
+
+  public inspectComponent(id: number) {
+    return this.devtools.request("RNIDE_inspectComponent", { id }, this.devtoolsClientId);
+  }
+
+  public getComponentFrame(id: number) {
+    return this.devtools.request("RNIDE_getComponentFrame", { id }, this.devtoolsClientId);
+  }
+
+  public overrideComponentValue(
+    id: number,
+    target: ComponentValueTarget,
+    path: string[],
+    value: unknown
   ) {
-    const id = this.inspectCallID++;
-    const listener = (event: string, payload: any) => {
-      if (event === "RNIDE_inspectData" && payload.id === id) {
-        this.devtools?.removeListener(listener);
-        callback(payload);
-      }
-    };
-    this.devtools?.addListener(listener);
-    this.devtools.send("RNIDE_inspect", { x: xRatio, y: yRatio, id, requestStack });
+    return this.devtools.request(
+      "RNIDE_overrideComponentValue",
+      { id, target, path, value },
+      this.devtoolsClientId
+    );
   }
 
   public openNavigation(id: string) {
-    this.devtools.send("RNIDE_openNavigation", { id });
+    this.devtools.send("RNIDE_openNavigation", { id }, this.devtoolsClientId);
+  }
+
+  public openRoute(path: string) {
+    this.devtools.send("RNIDE_openRoute", { path }, this.devtoolsClientId);
   }
 
   public async openDevMenu() {
@@ -299,7 +372,31 @@ export class DeviceSession implements Disposable {
   }
 
   public startPreview(previewId: string) {
-    this.devtools.send("RNIDE_openPreview", { previewId });
+    this.devtools.send("RNIDE_openPreview", { previewId }, this.devtoolsClientId);
+  }
+
+  public getPreviewProps(previewId: string) {
+    return this.devtools.request("RNIDE_getPreviewProps", { previewId }, this.devtoolsClientId);
+  }
+
+  public overridePreviewProps(previewId: string, overrides: Record<string, unknown>) {
+    return this.devtools.request(
+      "RNIDE_overridePreviewProps",
+      { previewId, overrides },
+      this.devtoolsClientId
+    );
+  }
+
+  public resetPreviewProps(previewId: string) {
+    return this.devtools.request("RNIDE_resetPreviewProps", { previewId }, this.devtoolsClientId);
+  }
+
+  public showStorybookStory(componentTitle: string, storyName: string) {
+    this.devtools.send(
+      "RNIDE_showStorybookStory",
+      { componentTitle, storyName },
+      this.devtoolsClientId
+    );
   }
 
   public async changeDeviceSettings(settings: DeviceSettings): Promise<boolean> {
@@ -1,21 +1,48 @@
 import http from "http";
-import { Disposable } from "vscode";
+import { Disposable, window } from "vscode";
 import { WebSocketServer, WebSocket } from "ws";
 import { Logger } from "../Logger";
+import {
+  DEVTOOLS_PROTOCOL_VERSION,
+  DevtoolsAppEventMap,
+  DevtoolsIDEEventMap,
+  DevtoolsListener,
+  DevtoolsRequest,
+  DevtoolsRequestMap,
+} from "../common/DevtoolsProtocol";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+type PendingRequest = {
+  clientId: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+};
 
 export class Devtools implements Disposable {
   private _port = 0;
   private server: any;
-  private socket?: WebSocket;
-  private listeners: Set<(event: string, payload: any) => void> = new Set();
+  // clients that completed the handshake, keyed by the id they sent in RNIDE_appReady
+  private clients = new Map<string, WebSocket>();
+  private socketClientIds = new Map<WebSocket, string>();
+  private lastAnonymousClientId = 0;
+  private listeners: Set<DevtoolsListener> = new Set();
   private startPromise: Promise<void> | undefined;
+  private lastRequestId = 0;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private hasWarnedAboutProtocolVersion = false;
 
   public get port() {
     return this._port;
   }
 
   public get hasConnectedClient() {
-    return this.socket !== undefined;
+    return this.clients.size > 0;
+  }
+
+  public isClientConnected(clientId: string | undefined) {
+    return clientId !== undefined && this.clients.has(clientId);
   }
 
   public async ready() {
@@ -25,18 +52,118 @@ export class Devtools implements Disposable {
     await this.startPromise;
   }
 
+  /**
+   * Resolves with the id of the next client that completes the handshake.
+   */
   public async appReady() {
-    return new Promise<void>((resolve) => {
-      const listener = (event: string) => {
-        if (event === "RNIDE_appReady") {
+    return new Promise<string>((resolve) => {
+      const listener: DevtoolsListener = (event, _payload, clientId) => {
+        if (event === "RNIDE_appReady" && clientId !== undefined) {
           this.removeListener(listener);
-          resolve();
+          resolve(clientId);
         }
       };
       this.addListener(listener);
     });
   }
 
+  private checkProtocolVersion({ protocolVersion }: DevtoolsAppEventMap["RNIDE_appReady"]) {
+    // handshake is repeated when the wrapper remounts and on every reload, so we only warn once
+    if (protocolVersion === DEVTOOLS_PROTOCOL_VERSION || this.hasWarnedAboutProtocolVersion) {
+      return;
+    }
+    this.hasWarnedAboutProtocolVersion = true;
+    // the runtime is bundled into the app, so it may come from a stale metro cache or an
+    // embedded bundle built with a different version of the extension
+    Logger.warn(
+      `App runtime uses devtools protocol version ${
+        protocolVersion ?? "unknown"
+      }, expected ${DEVTOOLS_PROTOCOL_VERSION}`
+    );
+    window.showWarningMessage(
+      "The app is running an outdated Radon IDE runtime, some features may not work correctly. Restart the IDE with Metro cache cleaned to update it.",
+      "Dismiss"
+    );
+  }
+
+  private registerClient(ws: WebSocket, { clientId }: DevtoolsAppEventMap["RNIDE_appReady"]) {
+    const previousClientId = this.socketClientIds.get(ws);
+    if (previousClientId !== undefined) {
+      // handshake is repeated when the app wrapper remounts, we keep the id from the first one
+      return previousClientId;
+    }
+    // runtimes that predate protocol version 2 don't send client id, so we make one up
+    const id = clientId ?? `anonymous-${++this.lastAnonymousClientId}`;
+    const existingSocket = this.clients.get(id);
+    if (existingSocket !== undefined) {
+      // the same runtime reconnected, we drop the stale connection. Responses to requests sent
+      // over it will never arrive, so we reject them right away instead of waiting for the timeout
+      this.socketClientIds.delete(existingSocket);
+      existingSocket.close();
+      this.rejectPendingRequests("Devtools client reconnected", id);
+    }
+    this.clients.set(id, ws);
+    this.socketClientIds.set(ws, id);
+    Logger.debug("Devtools client identified", id);
+    this.emit("clientConnected", undefined, id);
+    return id;
+  }
+
+  private unregisterClient(ws: WebSocket) {
+    const clientId = this.socketClientIds.get(ws);
+    if (clientId === undefined) {
+      return;
+    }
+    this.socketClientIds.delete(ws);
+    this.clients.delete(clientId);
+    this.rejectPendingRequests("Devtools client disconnected", clientId);
+    Logger.debug("Devtools client disconnected", clientId);
+    this.emit("clientDisconnected", undefined, clientId);
+  }
+
+  private emit(...args: Parameters<DevtoolsListener>) {
+    this.listeners.forEach((listener) => listener(...args));
+  }
+
+  private handleMessage(ws: WebSocket, message: string) {
+    const { event, payload } = JSON.parse(message);
+    Logger.log("Devtools message", event);
+    if (event === "RNIDE_appReady") {
+      this.checkProtocolVersion(payload);
+      this.emit(event, payload, this.registerClient(ws, payload));
+      return;
+    } else if (event === "RNIDE_response") {
+      this.handleResponse(payload);
+      return;
+    }
+    this.emit(event, payload, this.socketClientIds.get(ws));
+  }
+
+  private handleResponse({ requestId, result, error }: DevtoolsAppEventMap["RNIDE_response"]) {
+    const request = this.pendingRequests.get(requestId);
+    if (!request) {
+      Logger.debug("Received response for unknown devtools request", requestId);
+      return;
+    }
+    this.pendingRequests.delete(requestId);
+    clearTimeout(request.timeout);
+    if (error !== undefined) {
+      request.reject(new Error(error));
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private rejectPendingRequests(reason: string, clientId?: string) {
+    this.pendingRequests.forEach((request, requestId) => {
+      if (clientId === undefined || request.clientId === clientId) {
+        clearTimeout(request.timeout);
+        request.reject(new Error(reason));
+        this.pendingRequests.delete(requestId);
+      }
+    });
+  }
+
   public async start() {
     if (this.startPromise) {
       throw new Error("Devtools already started");
@@ -50,26 +177,20 @@ export class Devtools implements Disposable {
     const wss = new WebSocketServer({ server: this.server });
 
     wss.on("connection", (ws) => {
-      if (this.socket !== undefined) {
-        Logger.error("Devtools client already connected");
-        this.socket.close();
-      }
+      // clients are only tracked after they identify themselves in the handshake
       Logger.debug("Devtools client connected");
-      this.socket = ws;
 
       // When data is received from a client
       ws.on("message", (message: string) => {
         try {
-          const { event, payload } = JSON.parse(message);
-          Logger.log("Devtools message", event);
-          this.listeners.forEach((listener) => listener(event, payload));
+          this.handleMessage(ws, message);
         } catch (e) {
           Logger.error("Error while handling devtools websocket message", e);
         }
       });
 
       ws.on("close", () => {
-        this.socket = undefined;
+        this.unregisterClient(ws);
       });
     });
 
@@ -83,18 +204,65 @@ export class Devtools implements Disposable {
   }
 
   public dispose() {
+    this.rejectPendingRequests("Devtools disposed");
     this.server.close();
   }
 
-  public send(event: string, payload?: any) {
-    this.socket?.send(JSON.stringify({ event, payload }));
+  /**
+   * Sends the event to the given client. The event is dropped when the client isn't connected,
+   * i.e. while the app is launching and no client is active yet.
+   */
+  public send<E extends keyof DevtoolsIDEEventMap>(
+    event: E,
+    payload: DevtoolsIDEEventMap[E],
+    clientId: string | undefined
+  ) {
+    const ws = clientId !== undefined ? this.clients.get(clientId) : undefined;
+    if (!ws) {
+      Logger.debug("Devtools client not connected, dropping event", event);
+      return;
+    }
+    ws.send(JSON.stringify({ event, payload }));
+  }
+
+  /**
+   * Sends the event to all identified clients.
+   */
+  public broadcast<E extends keyof DevtoolsIDEEventMap>(event: E, payload: DevtoolsIDEEventMap[E]) {
+    const message = JSON.stringify({ event, payload });
+    this.clients.forEach((ws) => ws.send(message));
+  }
+
+  /**
+   * Sends a request to the app runtime and resolves with the result it responds with.
+   * Rejects when the client disconnects or doesn't respond in time.
+   */
+  public request<K extends keyof DevtoolsRequestMap>(
+    name: K,
+    params: DevtoolsRequestMap[K]["params"],
+    clientId: string | undefined
+  ): Promise<DevtoolsRequestMap[K]["result"]> {
+    const ws = clientId !== undefined ? this.clients.get(clientId) : undefined;
+    if (clientId === undefined || !ws) {
+      return Promise.reject(new Error("Devtools client not connected"));
+    }
+    const requestId = ++this.lastRequestId;
+    const request: DevtoolsRequest<K> = { requestId, params };
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error(`Devtools request ${name} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pendingRequests.set(requestId, { clientId, resolve, reject, timeout });
+      ws.send(JSON.stringify({ event: name, payload: request }));
+    });
   }
 
-  public addListener(listener: (event: string, payload: any) => void) {
+  public addListener(listener: DevtoolsListener) {
     this.listeners.add(listener);
   }
 
-  public removeListener(listener: (event: string, payload: any) => void) {
+  public removeListener(listener: DevtoolsListener) {
     this.listeners.delete(listener);
   }
 }
@@ -1,18 +1,26 @@
 import path from "path";
 import fs from "fs";
 import WebSocket from "ws";
-import { Disposable, ExtensionMode, Uri, workspace } from "vscode";
+import { Disposable, ExtensionMode, Uri, window, workspace } from "vscode";
 import stripAnsi from "strip-ansi";
 import { exec, ChildProcess, lineReader } from "../utilities/subprocess";
 import { Logger } from "../Logger";
 import { extensionContext, getAppRootFolder } from "../utilities/extensionContext";
 import { shouldUseExpoCLI } from "../utilities/expoCli";
 import { Devtools } from "./devtools";
+import { createWorkerLogRecord, MetroLogRecord, parseMetroLogLine } from "./metroLogs";
 import { getLaunchConfiguration } from "../utilities/launchConfiguration";
+import { validateMetroOptions } from "../utilities/metroOptions";
+import { LaunchConfigurationOptions } from "../common/LaunchConfig";
+import { BundleErrorDescriptor, BundleStats, BundleStatsHistory } from "../common/Project";
 
 export interface MetroDelegate {
   onBundleError(): void;
-  onIncrementalBundleError(message: string, errorModulePath: string): void;
+  onIncrementalBundleError(error: BundleErrorDescriptor): void;
+  onBundleBuilt(): void;
+  onBundleStatsChanged(stats: BundleStatsHistory): void;
+  onMetroLog(record: MetroLogRecord): void;
+  onBundlerCrashed(lastStderrLines: string[]): void;
 }
 
 interface CDPTargetDescription {
@@ -24,22 +32,24 @@ interface CDPTargetDescription {
   [key: string]: any; // To allow for any additional properties
 }
 
+export type DebuggerRuntime = {
+  title: string;
+  websocketAddress: string;
+};
+
 type MetroEvent =
   | {
       type: "bundle_build_failed"; // related to bundleError status
     }
+  | {
+      type: "bundle_build_done";
+    }
   | {
       type: "bundling_error"; // related to incrementalBundleError status
       message: string;
       stack: string;
-      error: {
-        message: string;
-        originModulePath: string;
-        targetModuleName: string;
-        errors: {
-          description: string;
-        }[];
-      };
+      errorType?: string;
+      error: BundlingError;
     }
   | {
       type: "bundle_transform_progressed";
@@ -47,6 +57,13 @@ type MetroEvent =
       totalFileCount: number;
     }
   | { type: "RNIDE_expo_env_prelude_lines"; lineCount: number }
+  | {
+      type: "RNIDE_bundle_stats";
+      entryPoints: string[];
+      modules: [string, number][]; // module path and size
+    }
+  | { type: "RNIDE_module_transformed"; filename: string; durationMs: number }
+  | { type: "worker_stdout_chunk"; chunk: string }
   | {
       type: "RNIDE_initialize_done";
       port: number;
@@ -66,6 +83,85 @@ type MetroEvent =
       ];
     };
 
+type BundlingError = {
+  message: string;
+  // resolution errors
+  originModulePath?: string;
+  targetModuleName?: string;
+  // transform (i.e. syntax) errors
+  filename?: string;
+  lineNumber?: number;
+  column?: number;
+  snippet?: string;
+  codeFrame?: string;
+  errors?: {
+    description: string;
+  }[];
+};
+
+const BUNDLE_STATS_HISTORY_LIMIT = 10;
+const STDERR_TAIL_LENGTH = 20;
+
+type MetroOptions = NonNullable<LaunchConfigurationOptions["metro"]>;
+
+// matches code frame lines like "> 12 | import foo from 'bar';" or "     |        ^"
+const CODE_FRAME_LINE_REGEX = /^\s*>?\s*\d*\s*\|/;
+
+function findModuleImportLocation(filePath: string, targetModuleName: string) {
+  // resolution errors don't carry the location of the failing import, so we look for the
+  // first occurrence of the module name in quotes in the origin module
+  try {
+    const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+    for (let line0Based = 0; line0Based < lines.length; line0Based++) {
+      const column0Based = ["'", '"', "`"]
+        .map((quote) => lines[line0Based].indexOf(`${quote}${targetModuleName}${quote}`))
+        .find((index) => index >= 0);
+      if (column0Based !== undefined) {
+        return { filePath, line0Based, column0Based };
+      }
+    }
+  } catch (e) {
+    Logger.debug("Couldn't read the module that failed to bundle", filePath);
+  }
+  return { filePath, line0Based: 0, column0Based: 0 };
+}
+
+function toBundleErrorDescriptor(
+  event: Extract<MetroEvent, { type: "bundling_error" }>
+): BundleErrorDescriptor {
+  const { error } = event;
+  const [summary, ...details] = stripAnsi(event.message ?? error.message ?? "").split("\n");
+
+  // code frame is either provided separately or, for resolution errors, embedded in the message
+  let codeFrame = error.snippet ?? error.codeFrame;
+  if (codeFrame === undefined) {
+    const codeFrameLines = details.filter((line) => CODE_FRAME_LINE_REGEX.test(line));
+    codeFrame = codeFrameLines.length > 0 ? codeFrameLines.join("\n") : undefined;
+  }
+
+  let location: BundleErrorDescriptor["location"];
+  if (error.filename && error.lineNumber !== undefined) {
+    location = {
+      filePath: error.filename,
+      line0Based: Math.max(error.lineNumber - 1, 0),
+      column0Based: error.column ?? 0,
+    };
+  } else if (error.originModulePath && error.targetModuleName) {
+    location = findModuleImportLocation(error.originModulePath, error.targetModuleName);
+  } else if (error.originModulePath) {
+    location = { filePath: error.originModulePath, line0Based: 0, column0Based: 0 };
+  }
+
+  return {
+    type: event.errorType,
+    message: summary,
+    codeFrame: codeFrame && stripAnsi(codeFrame),
+    targetModuleName: error.targetModuleName,
+    descriptions: (error.errors ?? []).map(({ description }) => stripAnsi(description)),
+    location,
+  };
+}
+
 export class Metro implements Disposable {
   private subprocess?: ChildProcess;
   private _port = 0;
@@ -73,6 +169,13 @@ export class Metro implements Disposable {
   private startPromise: Promise<void> | undefined;
   private usesNewDebugger?: Boolean;
   private _expoPreludeLineCount = 0;
+  private bundleStats: BundleStats[] = [];
+  // transform durations reported since the last bundle stats, keyed by module path
+  private transformDurations = new Map<string, number>();
+  private workerOutputBuffer = "";
+  private _isAttached = false;
+  private stderrTail: string[] = [];
+  private disposed = false;
 
   constructor(private readonly devtools: Devtools, private readonly delegate: MetroDelegate) {}
 
@@ -94,11 +197,87 @@ export class Metro implements Disposable {
     return this._watchFolders;
   }
 
+  /**
+   * Whether we attached to a metro server started outside of the IDE. In such case metro
+   * doesn't use our config overrides, hence the runtime and devtools integration isn't
+   * injected into the bundle and metro events aren't reported.
+   */
+  public get isAttached() {
+    return this._isAttached;
+  }
+
   public get expoPreludeLineCount() {
     return this._expoPreludeLineCount;
   }
 
+  public get bundleStatsHistory(): BundleStatsHistory {
+    return {
+      current: this.bundleStats.at(-1),
+      previous: this.bundleStats.at(-2),
+    };
+  }
+
+  private recordBundleStats(event: Extract<MetroEvent, { type: "RNIDE_bundle_stats" }>) {
+    let totalSize = 0;
+    let transformDurationMs = 0;
+    const modules = event.modules.map(([modulePath, size]) => {
+      const moduleTransformDuration = this.transformDurations.get(modulePath);
+      totalSize += size;
+      transformDurationMs += moduleTransformDuration ?? 0;
+      return { path: modulePath, size, transformDurationMs: moduleTransformDuration };
+    });
+    this.transformDurations.clear();
+
+    const lastId = this.bundleStats.at(-1)?.id ?? 0;
+    this.bundleStats.push({
+      id: lastId + 1,
+      timestamp: Date.now(),
+      entryPoints: event.entryPoints,
+      modules,
+      totalSize,
+      transformDurationMs,
+    });
+    if (this.bundleStats.length > BUNDLE_STATS_HISTORY_LIMIT) {
+      this.bundleStats.shift();
+    }
+    this.delegate.onBundleStatsChanged(this.bundleStatsHistory);
+  }
+
+  private handleWorkerOutput(chunk: string) {
+    // worker output comes in chunks that don't necessarily align with lines, so we buffer
+    // the last incomplete line until the rest of it arrives
+    const lines = (this.workerOutputBuffer + chunk).split("\n");
+    this.workerOutputBuffer = lines.pop() ?? "";
+    lines.forEach((line) => {
+      try {
+        const event = JSON.parse(line);
+        if (event.type === "RNIDE_module_transformed") {
+          this.recordTransformDuration(event);
+        }
+      } catch (e) {
+        // not all worker output is JSON, the rest is just printed out
+        Logger.debug("Metro worker", line);
+        const record = createWorkerLogRecord(line);
+        record && this.delegate.onMetroLog(record);
+      }
+    });
+  }
+
+  private recordTransformDuration({
+    filename,
+    durationMs,
+  }: {
+    filename: string;
+    durationMs: number;
+  }) {
+    this.transformDurations.set(
+      filename,
+      (this.transformDurations.get(filename) ?? 0) + durationMs
+    );
+  }
+
   public dispose() {
+    this.disposed = true;
     this.subprocess?.kill(9);
   }
 
@@ -118,18 +297,33 @@ export class Metro implements Disposable {
       throw new Error("metro already started");
     }
     this.startPromise = this.startInternal(resetCache, progressListener, dependencies);
-    this.startPromise.then(() => {
-      // start promise is used to indicate that metro has started, however, sometimes
-      // the metro process may exit, in which case we need to update the promise to
-      // indicate an error.
-      this.subprocess
-        ?.catch(() => {
-          // ignore the error, we are only interested in the process exit
-        })
-        ?.then(() => {
-          this.startPromise = Promise.reject(new Error("Metro process exited"));
-        });
-    });
+    this.startPromise.then(
+      () => {
+        // start promise is used to indicate that metro has started, however, sometimes
+        // the metro process may exit, in which case we need to update the promise to
+        // indicate an error.
+        this.subprocess
+          ?.catch(() => {
+            // ignore the error, we are only interested in the process exit
+          })
+          ?.then(() => {
+            this.startPromise = Promise.reject(new Error("Metro process exited"));
+            if (!this.disposed) {
+              Logger.error("Metro process exited after it had started");
+              this.delegate.onBundlerCrashed([...this.stderrTail]);
+            }
+          });
+      },
+      () => {
+        // the process may also crash before it finishes initializing, which we handle the same
+        // way. Start fails without the process being launched only when attaching to a running
+        // metro, which isn't something a restart can fix
+        if (this.subprocess && !this.disposed) {
+          Logger.error("Metro process exited before it had started");
+          this.delegate.onBundlerCrashed([...this.stderrTail]);
+        }
+      }
+    );
     return this.startPromise;
   }
 
@@ -137,20 +331,32 @@ export class Metro implements Disposable {
     appRootFolder: string,
     libPath: string,
     resetCache: boolean,
-    metroEnv: typeof process.env
+    metroEnv: typeof process.env,
+    metroOptions: MetroOptions
   ) {
-    return exec("node", [path.join(libPath, "expo_start.js"), ...(resetCache ? ["--clear"] : [])], {
-      cwd: appRootFolder,
-      env: metroEnv,
-      buffer: false,
-    });
+    return exec(
+      "node",
+      [
+        path.join(libPath, "expo_start.js"),
+        ...(resetCache ? ["--clear"] : []),
+        ...(metroOptions.port ? ["--port", metroOptions.port.toString()] : []),
+        ...(metroOptions.host ? ["--host", metroOptions.host] : []),
+        ...(metroOptions.args ?? []),
+      ],
+      {
+        cwd: appRootFolder,
+        env: metroEnv,
+        buffer: false,
+      }
+    );
   }
 
   private launchPackager(
     appRootFolder: string,
     libPath: string,
     resetCache: boolean,
-    metroEnv: typeof process.env
+    metroEnv: typeof process.env,
+    metroOptions: MetroOptions
   ) {
     const reactNativeRoot = path.dirname(
       require.resolve("react-native", { paths: [appRootFolder] })
@@ -163,11 +369,13 @@ export class Metro implements Disposable {
         ...(resetCache ? ["--reset-cache"] : []),
         "--no-interactive",
         "--port",
-        "0",
+        (metroOptions.port ?? 0).toString(),
+        ...(metroOptions.host ? ["--host", metroOptions.host] : []),
         "--config",
         path.join(libPath, "metro_config.js"),
         "--customLogReporterPath",
         path.join(libPath, "metro_reporter.js"),
+        ...(metroOptions.args ?? []),
       ],
       {
         cwd: appRootFolder,
@@ -186,6 +394,17 @@ export class Metro implements Disposable {
     const launchConfiguration = getLaunchConfiguration();
     await Promise.all([this.devtools.ready()].concat(dependencies));
 
+    const { options: metroOptions = {}, errors } = validateMetroOptions(launchConfiguration.metro);
+    if (errors.length > 0) {
+      const message = `Invalid Radon IDE launch configuration: ${errors.join(" ")}`;
+      Logger.warn(message);
+      window.showWarningMessage(message, "Dismiss");
+    }
+
+    if (metroOptions.attachToPort !== undefined) {
+      return this.attachToRunningMetro(metroOptions.attachToPort, appRootFolder);
+    }
+
     const libPath = path.join(extensionContext.extensionPath, "lib");
     let metroConfigPath: string | undefined;
     if (launchConfiguration.metroConfigPath) {
@@ -196,7 +415,10 @@ export class Metro implements Disposable {
       ...launchConfiguration.env,
       ...(metroConfigPath ? { RN_IDE_METRO_CONFIG_PATH: metroConfigPath } : {}),
       NODE_PATH: path.join(appRootFolder, "node_modules"),
-      RCT_METRO_PORT: "0",
+      RCT_METRO_PORT: (metroOptions.port ?? 0).toString(),
+      ...(metroOptions.entryFile
+        ? { RADON_IDE_ENTRY_FILE: path.resolve(appRootFolder, metroOptions.entryFile) }
+        : {}),
       RCT_DEVTOOLS_PORT: this.devtools.port.toString(),
       RADON_IDE_LIB_PATH: libPath,
       RADON_IDE_VERSION: extensionContext.extension.packageJSON.version,
@@ -205,9 +427,21 @@ export class Metro implements Disposable {
     let bundlerProcess: ChildProcess;
 
     if (shouldUseExpoCLI()) {
-      bundlerProcess = this.launchExpoMetro(appRootFolder, libPath, resetCache, metroEnv);
+      bundlerProcess = this.launchExpoMetro(
+        appRootFolder,
+        libPath,
+        resetCache,
+        metroEnv,
+        metroOptions
+      );
     } else {
-      bundlerProcess = this.launchPackager(appRootFolder, libPath, resetCache, metroEnv);
+      bundlerProcess = this.launchPackager(
+        appRootFolder,
+        libPath,
+        resetCache,
+        metroEnv,
+        metroOptions
+      );
     }
     this.subprocess = bundlerProcess;
 
@@ -225,7 +459,14 @@ export class Metro implements Disposable {
           reject(new Error("Metro exited but did not start server successfully."));
         });
 
-      lineReader(bundlerProcess).onLineRead((line) => {
+      lineReader(bundlerProcess).onLineRead((line, stderr) => {
+        if (stderr) {
+          // we keep the last few lines of stderr to show them when the process crashes
+          this.stderrTail.push(stripAnsi(line));
+          this.stderrTail = this.stderrTail.slice(-STDERR_TAIL_LENGTH);
+        }
+        const logRecord = parseMetroLogLine(line);
+        logRecord && this.delegate.onMetroLog(logRecord);
         try {
           const event = JSON.parse(line) as MetroEvent;
           if (event.type === "bundle_transform_progressed") {
@@ -235,6 +476,12 @@ export class Metro implements Disposable {
             }
           } else if (event.type === "client_log" && event.level === "error") {
             Logger.error(stripAnsi(event.data[0]));
+          } else if (
+            event.type === "RNIDE_bundle_stats" ||
+            event.type === "RNIDE_module_transformed" ||
+            event.type === "worker_stdout_chunk"
+          ) {
+            // these events are frequent and large, so we don't log them
           } else {
             Logger.debug("Metro", line);
           }
@@ -257,7 +504,19 @@ export class Metro implements Disposable {
               this.delegate.onBundleError();
               break;
             case "bundling_error":
-              this.delegate.onIncrementalBundleError(event.message, event.error.originModulePath);
+              this.delegate.onIncrementalBundleError(toBundleErrorDescriptor(event));
+              break;
+            case "bundle_build_done":
+              this.delegate.onBundleBuilt();
+              break;
+            case "RNIDE_bundle_stats":
+              this.recordBundleStats(event);
+              break;
+            case "RNIDE_module_transformed":
+              this.recordTransformDuration(event);
+              break;
+            case "worker_stdout_chunk":
+              this.handleWorkerOutput(event.chunk);
               break;
           }
         } catch (error) {
@@ -270,6 +529,39 @@ export class Metro implements Disposable {
     return initPromise;
   }
 
+  private async attachToRunningMetro(port: number, appRootFolder: string) {
+    Logger.info(`Attaching to Metro running on port ${port}`);
+    let response: Response;
+    try {
+      response = await fetch(`http://localhost:${port}/status`);
+    } catch (e) {
+      const message = `Couldn't connect to Metro on port ${port}. Make sure it is running or remove the "metro.attachToPort" option from the launch configuration.`;
+      window.showErrorMessage(message, "Dismiss");
+      throw new Error(message);
+    }
+    const status = await response.text();
+    if (status !== "packager-status:running") {
+      const message = `Server running on port ${port} doesn't report as Metro (status: "${status}").`;
+      window.showErrorMessage(message, "Dismiss");
+      throw new Error(message);
+    }
+
+    this._port = port;
+    this._isAttached = true;
+
+    // metro doesn't expose its watch folders, but the status endpoint reports the project root
+    // which is the first of them. Source files from the other watch folders can't be mapped
+    // with the new debugger in this case.
+    const projectRoot = response.headers.get("X-React-Native-Project-Root");
+    this._watchFolders = [projectRoot ?? appRootFolder];
+    Logger.info("Using metro watch folders", this._watchFolders);
+
+    window.showWarningMessage(
+      `Radon IDE is attached to Metro running on port ${port}. Since the IDE doesn't control this Metro instance, element inspector, navigation, component previews, bundle errors and bundle statistics are not available.`,
+      "Dismiss"
+    );
+  }
+
   private async sendMessageToDevice(method: "devMenu" | "reload") {
     // we use metro's /message websocket endpoint to deliver specifically formatted
     // messages to the device.
@@ -342,6 +634,35 @@ export class Metro implements Disposable {
     return websocketAddress;
   }
 
+  public async getSecondaryDebuggerRuntimes(): Promise<DebuggerRuntime[]> {
+    // secondary runtimes are only listed as separate pages with the new debugger
+    if (!this.isUsingNewDebugger) {
+      return [];
+    }
+    const list = await fetch(`http://localhost:${this._port}/json/list`);
+    const listJson = await list.json();
+    return this.lookupSecondaryRuntimesForNewDebugger(listJson).map((page) => ({
+      title: page.title,
+      websocketAddress: this.toLocalDebuggerURL(page.webSocketDebuggerUrl),
+    }));
+  }
+
+  private lookupSecondaryRuntimesForNewDebugger(listJson: CDPTargetDescription[]) {
+    // Runtimes other than the main one (e.g. reanimated worklet runtime) register as
+    // additional pages of the same device. We identify the device of the main runtime
+    // and pick all the other pages that belong to it.
+    const isMainRuntime = (page: CDPTargetDescription) =>
+      page.reactNative && page.title.startsWith("React Native Bridge");
+    const mainPage = listJson.find(isMainRuntime);
+    if (!mainPage) {
+      return [];
+    }
+    const deviceId = mainPage.id.slice(0, mainPage.id.lastIndexOf("-"));
+    return listJson.filter(
+      (page) => page.reactNative && !isMainRuntime(page) && page.id.startsWith(`${deviceId}-`)
+    );
+  }
+
   private lookupWsAddressForNewDebugger(listJson: CDPTargetDescription[]) {
     // in the new debugger, ids are generated in the following format: "deviceId-pageId"
     // but unlike with the old debugger, deviceId is a hex string (UUID most likely)
@@ -374,18 +695,22 @@ export class Metro implements Disposable {
     }
 
     if (websocketAddress) {
-      // Port and host in webSocketDebuggerUrl are set manually to match current metro address,
-      // because we always know what the correct one is and some versions of RN are sending out wrong port (0 or 8081)
-      const websocketDebuggerUrl = new URL(websocketAddress);
-      // replace port number with metro port number:
-      websocketDebuggerUrl.port = this._port.toString();
-      // replace host with localhost:
-      websocketDebuggerUrl.host = "localhost";
-      return websocketDebuggerUrl.toString();
+      return this.toLocalDebuggerURL(websocketAddress);
     }
 
     return undefined;
   }
+
+  private toLocalDebuggerURL(websocketAddress: string) {
+    // Port and host in webSocketDebuggerUrl are set manually to match current metro address,
+    // because we always know what the correct one is and some versions of RN are sending out wrong port (0 or 8081)
+    const websocketDebuggerUrl = new URL(websocketAddress);
+    // replace port number with metro port number:
+    websocketDebuggerUrl.port = this._port.toString();
+    // replace host with localhost:
+    websocketDebuggerUrl.host = "localhost";
+    return websocketDebuggerUrl.toString();
+  }
 }
 
 function findCustomMetroConfig(configPath: string) {
@@ -0,0 +1,86 @@
+import assert from "assert";
+import { createWorkerLogRecord, parseMetroLogLine } from "./metroLogs";
+
+function parseEvent(event: object) {
+  const record = parseMetroLogLine(JSON.stringify(event));
+  assert.ok(record);
+  const { timestamp: _timestamp, ...rest } = record;
+  return rest;
+}
+
+test("parseMetroLogLine() treats plain output as info logs", function () {
+  const record = parseMetroLogLine("\u001b[32mWelcome to Metro\u001b[39m");
+
+  assert.equal(record?.level, "info");
+  assert.equal(record?.type, "output");
+  assert.equal(record?.message, "Welcome to Metro");
+});
+
+test("parseMetroLogLine() ignores empty lines and internal events", function () {
+  assert.equal(parseMetroLogLine("   "), undefined);
+  assert.equal(
+    parseMetroLogLine(JSON.stringify({ type: "bundle_transform_progressed" })),
+    undefined
+  );
+  assert.equal(parseMetroLogLine(JSON.stringify({ type: "RNIDE_bundle_stats" })), undefined);
+});
+
+test("parseMetroLogLine() treats JSON values that aren't events as output", function () {
+  assert.equal(parseMetroLogLine("42")?.type, "output");
+  assert.equal(parseMetroLogLine(JSON.stringify({ message: "no type" }))?.type, "output");
+});
+
+test("parseMetroLogLine() formats client logs with their level", function () {
+  assert.deepEqual(
+    parseEvent({ type: "client_log", level: "warning", data: ["Count:", 3, { a: 1 }] }),
+    { level: "warn", type: "client_log", message: 'Count: 3 {"a":1}', module: undefined }
+  );
+  assert.equal(parseEvent({ type: "client_log", level: "trace", data: [] }).level, "debug");
+  assert.equal(parseEvent({ type: "client_log", level: "log", data: [] }).level, "info");
+});
+
+test("parseMetroLogLine() reports bundling errors with the failing module", function () {
+  assert.deepEqual(
+    parseEvent({
+      type: "bundling_error",
+      message: "Unable to resolve module ./missing",
+      error: { filename: "src/App.tsx" },
+    }),
+    {
+      level: "error",
+      type: "bundling_error",
+      message: "Unable to resolve module ./missing",
+      module: "src/App.tsx",
+    }
+  );
+});
+
+test("parseMetroLogLine() describes bundle build events", function () {
+  assert.deepEqual(
+    parseEvent({ type: "bundle_build_started", bundleDetails: { entryFile: "index.js" } }),
+    {
+      level: "info",
+      type: "bundle_build_started",
+      message: "Bundling index.js",
+      module: "index.js",
+    }
+  );
+  assert.equal(parseEvent({ type: "bundle_build_done" }).message, "Bundling finished");
+  assert.equal(parseEvent({ type: "bundle_build_failed" }).level, "error");
+});
+
+test("parseMetroLogLine() detects module paths in messages", function () {
+  const record = parseEvent({
+    type: "initialize_failed",
+    level: "error",
+    message: "SyntaxError in src/screens/Home.tsx: Unexpected token",
+  });
+
+  assert.equal(record.level, "error");
+  assert.equal(record.module, "src/screens/Home.tsx");
+});
+
+test("createWorkerLogRecord() wraps non-empty worker output", function () {
+  assert.equal(createWorkerLogRecord(""), undefined);
+  assert.equal(createWorkerLogRecord("transforming")?.type, "worker_output");
+});
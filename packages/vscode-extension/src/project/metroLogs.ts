@@ -0,0 +1,106 @@
+import stripAnsi from "strip-ansi";
+import { MetroLogEntry, MetroLogLevel } from "../common/Project";
+
+export type MetroLogRecord = Omit<MetroLogEntry, "id">;
+
+// events that are either too frequent or only used internally by the IDE
+const IGNORED_EVENTS = new Set([
+  "bundle_transform_progressed",
+  "worker_stdout_chunk",
+  "RNIDE_bundle_stats",
+  "RNIDE_module_transformed",
+]);
+
+const MODULE_PATH_REGEX = /(?:[\w@.-]+[\\/])+[\w@.-]+\.(?:jsx?|tsx?|mjs|cjs|json)/;
+
+function toLogLevel(level: string | undefined): MetroLogLevel {
+  switch (level) {
+    case "error":
+      return "error";
+    case "warn":
+    case "warning":
+      return "warn";
+    case "debug":
+    case "trace":
+      return "debug";
+    default:
+      return "info";
+  }
+}
+
+function findModulePath(message: string) {
+  return message.match(MODULE_PATH_REGEX)?.[0];
+}
+
+function formatClientLogArg(arg: unknown) {
+  return typeof arg === "string" ? arg : JSON.stringify(arg);
+}
+
+function createRecord(level: MetroLogLevel, type: string, message: string, module?: string) {
+  const plainMessage = stripAnsi(message);
+  return {
+    timestamp: Date.now(),
+    level,
+    type,
+    message: plainMessage,
+    module: module ?? findModulePath(plainMessage),
+  };
+}
+
+/**
+ * Converts a line printed by metro process (most of which are JSON encoded reporter events) into
+ * a log record. Returns undefined for events that shouldn't be listed in the logs.
+ */
+export function parseMetroLogLine(line: string): MetroLogRecord | undefined {
+  let event: any;
+  try {
+    event = JSON.parse(line);
+  } catch (e) {
+    event = undefined;
+  }
+  if (typeof event !== "object" || event === null || typeof event.type !== "string") {
+    return line.trim() ? createRecord("info", "output", line) : undefined;
+  }
+  if (IGNORED_EVENTS.has(event.type)) {
+    return undefined;
+  }
+  switch (event.type) {
+    case "client_log":
+      return createRecord(
+        toLogLevel(event.level),
+        event.type,
+        (event.data ?? []).map(formatClientLogArg).join(" ")
+      );
+    case "bundling_error":
+      return createRecord(
+        "error",
+        event.type,
+        event.message ?? event.error?.message ?? "Bundling error",
+        event.error?.filename ?? event.error?.originModulePath
+      );
+    case "bundle_build_failed":
+      return createRecord("error", event.type, "Bundle build failed");
+    case "bundle_build_started":
+      return createRecord(
+        "info",
+        event.type,
+        `Bundling ${event.bundleDetails?.entryFile ?? ""}`.trim(),
+        event.bundleDetails?.entryFile
+      );
+    case "bundle_build_done":
+      return createRecord("info", event.type, "Bundling finished");
+    default:
+      return createRecord(
+        toLogLevel(event.level),
+        event.type,
+        event.message ?? event.error?.message ?? event.type
+      );
+  }
+}
+
+/**
+ * Creates a log record for a line printed by one of metro's worker processes.
+ */
+export function createWorkerLogRecord(line: string): MetroLogRecord | undefined {
+  return line.trim() ? createRecord("info", "worker_output", line) : undefined;
+}
@@ -1,10 +1,27 @@
 import { EventEmitter } from "stream";
-import { Disposable, commands, workspace, window, DebugSessionCustomEvent } from "vscode";
-import stripAnsi from "strip-ansi";
+import {
+  Disposable,
+  commands,
+  workspace,
+  window,
+  languages,
+  DebugSessionCustomEvent,
+  Diagnostic,
+  DiagnosticSeverity,
+  Range,
+  Uri,
+} from "vscode";
 import { minimatch } from "minimatch";
 import { isEqual } from "lodash";
 import {
   AppPermissionType,
+  BundleErrorDescriptor,
+  BundleStatsHistory,
+  ComponentValueTarget,
+  MetroLogEntry,
+  NavigationHistory,
+  NavigationHistoryItem,
+  PreviewProp,
   DeviceSettings,
   InspectData,
   ProjectEventListener,
@@ -20,7 +37,7 @@ import {
 import { Logger } from "../Logger";
 import { DeviceInfo } from "../common/DeviceManager";
 import { DeviceAlreadyUsedError, DeviceManager } from "../devices/DeviceManager";
-import { extensionContext } from "../utilities/extensionContext";
+import { extensionContext, getAppRootFolder } from "../utilities/extensionContext";
 import { IosSimulatorDevice } from "../devices/IosSimulatorDevice";
 import { AndroidEmulatorDevice } from "../devices/AndroidEmulatorDevice";
 import { DependencyManager } from "../dependency/DependencyManager";
@@ -28,16 +45,30 @@ import { throttle, throttleAsync } from "../utilities/throttle";
 import { DebugSessionDelegate } from "../debugging/DebugSession";
 import { Metro, MetroDelegate } from "./metro";
 import { Devtools } from "./devtools";
+import { MetroLogRecord } from "./metroLogs";
 import { AppEvent, DeviceSession, EventDelegate } from "./deviceSession";
 import { PlatformBuildCache } from "../builders/PlatformBuildCache";
 import { PanelLocation } from "../common/WorkspaceConfig";
+import { getExpoRouterRoutes } from "../utilities/expoRouter";
+import { PreviewPropTypes } from "../utilities/previewPropTypes";
+import { PreviewPropsData } from "../common/DevtoolsProtocol";
 
 const DEVICE_SETTINGS_KEY = "device_settings_v4";
 const LAST_SELECTED_DEVICE_KEY = "last_selected_device";
 const PREVIEW_ZOOM_KEY = "preview_zoom";
 const DEEP_LINKS_HISTORY_KEY = "deep_links_history";
+const NAVIGATION_HISTORY_KEY = "navigation_history";
+const PINNED_ROUTES_KEY = "pinned_routes";
+const LAUNCH_ROUTE_KEY = "launch_route";
 
 const DEEP_LINKS_HISTORY_LIMIT = 50;
+const NAVIGATION_HISTORY_LIMIT = 50;
+const METRO_LOGS_HISTORY_LIMIT = 2000;
+
+const BUNDLER_RESTART_MAX_ATTEMPTS = 5;
+const BUNDLER_RESTART_BASE_DELAY_MS = 1000;
+// metro that keeps running for this long is considered recovered and restart attempts are reset
+const BUNDLER_STABLE_PERIOD_MS = 60_000;
 
 export class Project
   implements Disposable, MetroDelegate, EventDelegate, DebugSessionDelegate, ProjectInterface
@@ -51,6 +82,22 @@ export class Project
   private isCachedBuildStale: boolean;
 
   private fileWatcher: Disposable;
+  private previewPropTypes: PreviewPropTypes;
+  private bundleErrorDiagnostics = languages.createDiagnosticCollection("Radon IDE");
+
+  // metro logs are kept by the project rather than metro such that they survive metro restarts
+  private metroLogs: MetroLogEntry[] = [];
+  private lastMetroLogId = 0;
+
+  private bundlerStartTime = 0;
+  private bundlerRestartAttempts = 0;
+  private bundlerRestartTimeout: NodeJS.Timeout | undefined;
+
+  // routes reported by the app's navigation plugin, in addition to the ones found in expo-router app directory
+  private pluginNavigationRoutes: string[] = [];
+  // ids of routes reported by the currently connected app, only those can be opened by id as the app
+  // keeps the navigation details for them. Routes persisted from previous sessions are opened by path.
+  private sessionNavigationIds = new Set<string>();
 
   private deviceSession: DeviceSession | undefined;
 
@@ -91,6 +138,7 @@ export class Project
     this.fileWatcher = watchProjectFiles(() => {
       this.checkIfNativeChanged();
     });
+    this.previewPropTypes = new PreviewPropTypes(getAppRootFolder());
   }
 
   //#region Build progress
@@ -113,6 +161,13 @@ export class Project
     switch (event) {
       case "navigationChanged":
         this.eventEmitter.emit("navigationChanged", payload);
+        this.addToNavigationHistory(payload as AppEvent["navigationChanged"]);
+        break;
+      case "navigationRoutesChanged":
+        this.pluginNavigationRoutes = (payload as AppEvent["navigationRoutesChanged"]).routes;
+        this.getNavigationRoutes().then((routes) => {
+          this.eventEmitter.emit("navigationRoutesChanged", routes);
+        });
         break;
       case "fastRefreshStarted":
         this.updateProjectState({ status: "refreshing" });
@@ -124,6 +179,16 @@ export class Project
         }
         this.updateProjectState({ status: "running" });
         break;
+      case "appConnected":
+        this.updateProjectState({ appDisconnected: false });
+        this.sessionNavigationIds.clear();
+        if ((payload as AppEvent["appConnected"]).afterLaunch) {
+          this.openLaunchRoute();
+        }
+        break;
+      case "appDisconnected":
+        this.updateProjectState({ appDisconnected: true });
+        break;
     }
   };
   //#endregion
@@ -174,14 +239,113 @@ export class Project
     this.updateProjectState({ status: "bundleError" });
   }
 
-  onIncrementalBundleError(message: string, _errorModulePath: string): void {
-    Logger.error(stripAnsi(message));
+  onIncrementalBundleError(error: BundleErrorDescriptor): void {
+    Logger.error([error.message, error.codeFrame].filter(Boolean).join("\n"));
+    this.updateBundleErrorDiagnostics(error);
     // if bundle build failed, we don't want to change the status
     // incrementalBundleError status should be set only when bundleError status is not set
     if (this.projectState.status === "bundleError") {
+      this.updateProjectState({ bundleError: error });
+      return;
+    }
+    this.updateProjectState({ status: "incrementalBundleError", bundleError: error });
+  }
+
+  onBundleStatsChanged(stats: BundleStatsHistory): void {
+    this.eventEmitter.emit("bundleStatsChanged", stats);
+  }
+
+  public async getBundleStats() {
+    return this.metro.bundleStatsHistory;
+  }
+
+  onMetroLog(record: MetroLogRecord): void {
+    const entry = { ...record, id: ++this.lastMetroLogId };
+    this.metroLogs.push(entry);
+    if (this.metroLogs.length > METRO_LOGS_HISTORY_LIMIT) {
+      this.metroLogs.shift();
+    }
+    this.eventEmitter.emit("metroLog", entry);
+  }
+
+  public async getMetroLogs() {
+    return this.metroLogs;
+  }
+
+  public async clearMetroLogs() {
+    this.metroLogs = [];
+    this.eventEmitter.emit("metroLogsCleared");
+  }
+
+  onBundleBuilt(): void {
+    this.bundleErrorDiagnostics.clear();
+    if (this.projectState.status === "incrementalBundleError") {
+      this.updateProjectState({ status: "running", bundleError: undefined });
+    } else if (this.projectState.bundleError) {
+      this.updateProjectState({ bundleError: undefined });
+    }
+  }
+
+  onBundlerCrashed(lastStderrLines: string[]): void {
+    if (Date.now() - this.bundlerStartTime > BUNDLER_STABLE_PERIOD_MS) {
+      this.bundlerRestartAttempts = 0;
+    }
+    const willRetry = this.bundlerRestartAttempts < BUNDLER_RESTART_MAX_ATTEMPTS;
+    this.updateProjectState({
+      status: "bundlerCrashed",
+      bundlerCrash: {
+        lastStderrLines,
+        attempt: this.bundlerRestartAttempts,
+        maxAttempts: BUNDLER_RESTART_MAX_ATTEMPTS,
+        willRetry,
+      },
+    });
+    if (!willRetry) {
+      Logger.error(
+        "Metro keeps crashing, giving up after",
+        this.bundlerRestartAttempts,
+        "attempts"
+      );
+      return;
+    }
+
+    const delay = BUNDLER_RESTART_BASE_DELAY_MS * 2 ** this.bundlerRestartAttempts;
+    this.bundlerRestartAttempts++;
+    Logger.info(`Metro crashed, restarting in ${delay}ms`);
+    this.bundlerRestartTimeout = setTimeout(() => this.recoverFromBundlerCrash(), delay);
+  }
+
+  private async recoverFromBundlerCrash() {
+    this.bundlerRestartTimeout = undefined;
+    const deviceInfo = this.projectState.selectedDevice;
+    try {
+      // new metro comes with a new devtools server, so the device session needs to be
+      // restarted as well in order for the app and debugger to reconnect
+      await this.start(true, false);
+      if (deviceInfo) {
+        await this.selectDevice(deviceInfo, false);
+      }
+    } catch (e) {
+      Logger.error("Couldn't restart Metro after it crashed", e);
+      // a failed restart counts as another attempt, unless the new metro process has already
+      // reported its crash and scheduled the next one
+      if (this.bundlerRestartTimeout === undefined) {
+        this.onBundlerCrashed(this.projectState.bundlerCrash?.lastStderrLines ?? []);
+      }
+    }
+  }
+
+  private updateBundleErrorDiagnostics(error: BundleErrorDescriptor) {
+    this.bundleErrorDiagnostics.clear();
+    if (!error.location) {
       return;
     }
-    this.updateProjectState({ status: "incrementalBundleError" });
+    const { filePath, line0Based, column0Based } = error.location;
+    // the range spans until the end of the line, editor clips it to the actual line length
+    const range = new Range(line0Based, column0Based, line0Based, Number.MAX_SAFE_INTEGER);
+    const diagnostic = new Diagnostic(range, error.message, DiagnosticSeverity.Error);
+    diagnostic.source = "Metro";
+    this.bundleErrorDiagnostics.set(Uri.file(filePath), [diagnostic]);
   }
 
   /**
@@ -254,11 +418,14 @@ export class Project
   }
 
   public dispose() {
+    clearTimeout(this.bundlerRestartTimeout);
     this.deviceSession?.dispose();
     this.metro?.dispose();
     this.devtools?.dispose();
     this.deviceManager.removeListener("deviceRemoved", this.removeDeviceListener);
     this.fileWatcher.dispose();
+    this.previewPropTypes.dispose();
+    this.bundleErrorDiagnostics.dispose();
   }
 
   private async reloadMetro() {
@@ -289,6 +456,9 @@ export class Project
     const deviceInfo = this.projectState.selectedDevice!;
     const deviceSession = this.deviceSession;
 
+    // restart requested by the user gives the bundler a fresh set of crash recovery attempts
+    this.bundlerRestartAttempts = 0;
+
     this.updateProjectStateForDevice(deviceInfo, {
       status: "starting",
       startupMessage: StartupMessage.Restarting,
@@ -350,6 +520,10 @@ export class Project
   }
 
   private async start(restart: boolean, resetMetroCache: boolean) {
+    // any pending crash recovery is superseded by this start
+    clearTimeout(this.bundlerRestartTimeout);
+    this.bundlerRestartTimeout = undefined;
+    this.bundlerStartTime = Date.now();
     if (restart) {
       const oldDevtools = this.devtools;
       const oldMetro = this.metro;
@@ -357,6 +531,13 @@ export class Project
       this.metro = new Metro(this.devtools, this);
       oldDevtools.dispose();
       oldMetro.dispose();
+      this.onMetroLog({
+        timestamp: Date.now(),
+        level: "info",
+        type: "restart",
+        message: "Metro restarted",
+        module: undefined,
+      });
     }
 
     const waitForNodeModules = this.maybeInstallNodeModules();
@@ -412,28 +593,75 @@ export class Project
     requestStack: boolean,
     callback: (inspectData: InspectData) => void
   ) {
-    this.deviceSession?.inspectElementAt(xRatio, yRatio, requestStack, (inspectData) => {
-      let stack = undefined;
-      if (requestStack && inspectData?.stack) {
-        stack = inspectData.stack;
-        const inspectorExcludePattern = workspace
-          .getConfiguration("RadonIDE")
-          .get("inspectorExcludePattern") as string | undefined;
-        const patterns = inspectorExcludePattern?.split(",").map((pattern) => pattern.trim());
-        function testInspectorExcludeGlobPattern(filename: string) {
-          return patterns?.some((pattern) => minimatch(filename, pattern));
-        }
-        stack.forEach((item: any) => {
-          item.hide = false;
-          if (!isAppSourceFile(item.source.fileName)) {
-            item.hide = true;
-          } else if (testInspectorExcludeGlobPattern(item.source.fileName)) {
-            item.hide = true;
-          }
-        });
+    if (!this.deviceSession) {
+      return;
+    }
+    let inspectData;
+    try {
+      inspectData = await this.deviceSession.inspectElementAt(xRatio, yRatio, requestStack);
+    } catch (e) {
+      Logger.debug("Element inspection failed", e);
+      return;
+    }
+    let stack = undefined;
+    if (requestStack && inspectData?.stack) {
+      const inspectorExcludePattern = workspace
+        .getConfiguration("RadonIDE")
+        .get("inspectorExcludePattern") as string | undefined;
+      const patterns = inspectorExcludePattern?.split(",").map((pattern) => pattern.trim());
+      function testInspectorExcludeGlobPattern(filename: string) {
+        return patterns?.some((pattern) => minimatch(filename, pattern));
       }
-      callback({ frame: inspectData.frame, stack });
-    });
+      stack = inspectData.stack.map((item) => ({
+        ...item,
+        hide:
+          !isAppSourceFile(item.source.fileName) ||
+          !!testInspectorExcludeGlobPattern(item.source.fileName),
+      }));
+    }
+    callback({ frame: inspectData.frame, stack });
+  }
+
+  public async getComponentTree() {
+    try {
+      return (await this.deviceSession?.getComponentTree()) ?? [];
+    } catch (e) {
+      Logger.debug("Couldn't get component tree", e);
+      return [];
+    }
+  }
+
+  public async inspectComponent(id: number) {
+    try {
+      return await this.deviceSession?.inspectComponent(id);
+    } catch (e) {
+      Logger.debug("Couldn't inspect component", id, e);
+      return undefined;
+    }
+  }
+
+  public async getComponentFrame(id: number) {
+    try {
+      return await this.deviceSession?.getComponentFrame(id);
+    } catch (e) {
+      Logger.debug("Couldn't get component frame", id, e);
+      return undefined;
+    }
+  }
+
+  public async overrideComponentValue(
+    id: number,
+    target: ComponentValueTarget,
+    path: string[],
+    value: unknown
+  ) {
+    try {
+      return await this.deviceSession?.overrideComponentValue(id, target, path, value);
+    } catch (e) {
+      Logger.error("Couldn't override component value", e);
+      window.showErrorMessage(`Couldn't update the component: ${(e as Error).message}`, "Dismiss");
+      return undefined;
+    }
   }
 
   public async resumeDebugger() {
@@ -444,6 +672,14 @@ export class Project
     this.deviceSession?.stepOverDebugger();
   }
 
+  public async stepIntoDebugger() {
+    this.deviceSession?.stepIntoDebugger();
+  }
+
+  public async stepOutDebugger() {
+    this.deviceSession?.stepOutDebugger();
+  }
+
   public async focusBuildOutput() {
     this.deviceSession?.focusBuildOutput();
   }
@@ -457,7 +693,96 @@ export class Project
   }
 
   public async openNavigation(navigationItemID: string) {
-    this.deviceSession?.openNavigation(navigationItemID);
+    const isPreview =
+      navigationItemID.startsWith("preview://") || navigationItemID.startsWith("sb://");
+    if (isPreview || this.sessionNavigationIds.has(navigationItemID)) {
+      this.deviceSession?.openNavigation(navigationItemID);
+      return;
+    }
+    const { visited, pinned } = await this.getNavigationHistory();
+    const item = [...pinned, ...visited].find(({ id }) => id === navigationItemID);
+    if (item) {
+      this.deviceSession?.openRoute(item.displayName);
+    } else {
+      this.deviceSession?.openNavigation(navigationItemID);
+    }
+  }
+
+  private async openLaunchRoute() {
+    const { pinned, launchRouteId } = await this.getNavigationHistory();
+    if (pinned.some(({ id }) => id === launchRouteId)) {
+      Logger.debug("Opening launch route", launchRouteId);
+      await this.openNavigation(launchRouteId!);
+    }
+  }
+
+  public async getNavigationHistory(): Promise<NavigationHistory> {
+    const { workspaceState } = extensionContext;
+    return {
+      visited: workspaceState.get<NavigationHistoryItem[]>(NAVIGATION_HISTORY_KEY) ?? [],
+      pinned: workspaceState.get<NavigationHistoryItem[]>(PINNED_ROUTES_KEY) ?? [],
+      launchRouteId: workspaceState.get<string>(LAUNCH_ROUTE_KEY),
+    };
+  }
+
+  private async updateNavigationHistory(
+    key: string,
+    value: NavigationHistoryItem[] | string | undefined
+  ) {
+    await extensionContext.workspaceState.update(key, value);
+    this.eventEmitter.emit("navigationHistoryChanged", await this.getNavigationHistory());
+  }
+
+  private async addToNavigationHistory(item: NavigationHistoryItem) {
+    this.sessionNavigationIds.add(item.id);
+    const { visited } = await this.getNavigationHistory();
+    if (visited[0]?.id === item.id) {
+      return;
+    }
+    await this.updateNavigationHistory(
+      NAVIGATION_HISTORY_KEY,
+      [item, ...visited.filter(({ id }) => id !== item.id)].slice(0, NAVIGATION_HISTORY_LIMIT)
+    );
+  }
+
+  public async pinRoute(item: NavigationHistoryItem) {
+    const { pinned } = await this.getNavigationHistory();
+    if (!pinned.some(({ id }) => id === item.id)) {
+      await this.updateNavigationHistory(PINNED_ROUTES_KEY, [...pinned, item]);
+    }
+  }
+
+  public async unpinRoute(id: string) {
+    const { pinned, launchRouteId } = await this.getNavigationHistory();
+    await this.updateNavigationHistory(
+      PINNED_ROUTES_KEY,
+      pinned.filter((item) => item.id !== id)
+    );
+    if (launchRouteId === id) {
+      await this.setLaunchRoute(undefined);
+    }
+  }
+
+  public async setLaunchRoute(id: string | undefined) {
+    await this.updateNavigationHistory(LAUNCH_ROUTE_KEY, id);
+  }
+
+  public async openRoute(path: string) {
+    this.deviceSession?.openRoute(path);
+  }
+
+  public async getNavigationRoutes() {
+    let fileRoutes: string[] = [];
+    try {
+      fileRoutes = await getExpoRouterRoutes();
+    } catch (e) {
+      Logger.debug("Couldn't read expo-router routes", e);
+    }
+    return [...new Set([...fileRoutes, ...this.pluginNavigationRoutes])];
+  }
+
+  public toggleSkipFile(filePath: string) {
+    this.deviceSession?.toggleSkipFile(filePath);
   }
 
   public async openDevMenu() {
@@ -468,9 +793,67 @@ export class Project
     this.deviceSession?.startPreview(appKey);
   }
 
+  public async getPreviewProps(previewId: string) {
+    try {
+      const data = await this.deviceSession?.getPreviewProps(previewId);
+      return data && (await this.describePreviewProps(previewId, data));
+    } catch (e) {
+      Logger.debug("Couldn't get preview props", e);
+      return undefined;
+    }
+  }
+
+  public async overridePreviewProps(previewId: string, overrides: Record<string, unknown>) {
+    try {
+      const data = await this.deviceSession?.overridePreviewProps(previewId, overrides);
+      return data && (await this.describePreviewProps(previewId, data));
+    } catch (e) {
+      Logger.error("Couldn't update preview props", e);
+      window.showErrorMessage(`Couldn't update preview props: ${(e as Error).message}`, "Dismiss");
+      return undefined;
+    }
+  }
+
+  public async resetPreviewProps(previewId: string) {
+    try {
+      const data = await this.deviceSession?.resetPreviewProps(previewId);
+      return data && (await this.describePreviewProps(previewId, data));
+    } catch (e) {
+      Logger.error("Couldn't reset preview props", e);
+      return undefined;
+    }
+  }
+
+  private async describePreviewProps(
+    previewId: string,
+    { props, overriddenProps }: PreviewPropsData
+  ): Promise<PreviewProp[]> {
+    // ids of previews have the form of preview:/<file name>:<1-based line number>
+    const match = previewId.match(/^preview:\/(.*):(\d+)$/);
+    const propTypes = match
+      ? await this.previewPropTypes.getPreviewPropTypes(match[1], Number(match[2]) - 1)
+      : undefined;
+    const values = new Map(props.type === "object" ? props.entries : []);
+    // props that are declared in the type but aren't set on the element are listed too
+    const names = [
+      ...values.keys(),
+      ...(propTypes ?? []).map(({ name }) => name).filter((name) => !values.has(name)),
+    ];
+    return names.map((name) => {
+      const propType = propTypes?.find((type) => type.name === name);
+      return {
+        name,
+        value: values.get(name),
+        type: propType?.type,
+        options: propType?.options,
+        isOverridden: overriddenProps.includes(name),
+      };
+    });
+  }
+
   public async showStorybookStory(componentTitle: string, storyName: string) {
     if (await this.dependencyManager.checkProjectUsesStorybook()) {
-      this.devtools.send("RNIDE_showStorybookStory", { componentTitle, storyName });
+      this.deviceSession?.showStorybookStory(componentTitle, storyName);
     } else {
       window.showErrorMessage("Storybook is not installed.", "Dismiss");
     }
@@ -611,7 +994,10 @@ export class Project
 
       const isSelected = this.projectState.selectedDevice === deviceInfo;
       const isNewSession = this.deviceSession === newDeviceSession;
-      if (isSelected && isNewSession) {
+      // when metro crashes the session fails to start too, but we want to keep the crash status
+      // as it is handled by the crash recovery
+      const hasBundlerCrashed = this.projectState.status === "bundlerCrashed";
+      if (isSelected && isNewSession && !hasBundlerCrashed) {
         this.updateProjectState({ status: "buildError" });
       }
     }
@@ -6,6 +6,13 @@ import {
   Range,
   Command,
 } from "vscode";
+import {
+  extractStoryComponentName,
+  findPreviews,
+  findStories,
+  isStoryFile,
+  mayContainPreviews,
+} from "../utilities/previewDetection";
 
 export class PreviewCodeLensProvider implements CodeLensProvider {
   provideCodeLenses(
@@ -14,17 +21,14 @@ export class PreviewCodeLensProvider implements CodeLensProvider {
   ): CodeLens[] | Thenable<CodeLens[]> {
     const text = document.getText();
 
-    // We detect whether a file is a storybook story based on filename.
-    // If is ends with ".stories.js/ts/jsx/tsx", we treat it as a story file.
-    const isStory = /\.stories\.(js|ts|jsx|tsx)$/.test(document.fileName);
-    if (!text.includes("react-native-ide") && !text.includes("radon-ide") && !isStory) {
-      // we use previous NPM package name for compatibility
+    const isStory = isStoryFile(document.fileName);
+    if (!mayContainPreviews(text) && !isStory) {
       return [];
     }
 
     const codeLenses: CodeLens[] = [];
     if (isStory) {
-      const componentName = this.extractComponentName(text);
+      const componentName = extractStoryComponentName(text);
       if (!componentName) {
         return [];
       }
@@ -34,42 +38,15 @@ export class PreviewCodeLensProvider implements CodeLensProvider {
     return codeLenses;
   }
 
-  extractComponentName(text: string): string | null {
-    // Search for a "title" or a "component" field within the text to identify the component name.
-    // If no "title" field is present, then search for the "component" field,
-    // which is mandatory in the Component Story Format (CSF).
-    let componentName: string | null = null;
-    // Detected example: title: "#ComponentTitle#".
-    const titlePropRegex = /title:\s*(['"`])(\w+)\1/;
-    const titlePropMatch = titlePropRegex.exec(text);
-    if (titlePropMatch) {
-      componentName = titlePropMatch[2];
-    } else {
-      // Detected example: component: #ComponentName#.
-      const componentRegex = /component:\s*(\w+)/;
-      const componentMatch = componentRegex.exec(text);
-      if (componentMatch) {
-        componentName = componentMatch[1];
-      }
-    }
-    return componentName;
-  }
-
   addStorybookCodeLenses(
     text: string,
     document: TextDocument,
     codeLenses: CodeLens[],
     componentName: string
   ) {
-    // Detect stories defined in the Component Story Format (CSF).
-    // Each named export within the file corresponds to a story object. CodeLens annotations are applied to these lines.
-    // The pattern captures stories with whitespace between 'export' and identifiers like 'const', 'let', or 'var',
-    // and it excludes lines commented out with double slashes preceding the export.
-    // Detected example: export const Basic: Story =
-    const storyRegex = /^(?:(?!\/\/) )*export\s+(const|let|var)\s+(\w+)(?::\s*\w+\s*)? =/gm;
-    for (const match of text.matchAll(storyRegex)) {
-      const storyName = match[2];
-      const range = this.createRange(document, match.index);
+    // CodeLens annotations are applied to the lines with story exports
+    for (const { index, storyName } of findStories(text)) {
+      const range = this.createRange(document, index);
       const command: Command = {
         title: "Select story",
         command: "RNIDE.showStorybookStory",
@@ -80,15 +57,11 @@ export class PreviewCodeLensProvider implements CodeLensProvider {
   }
 
   addPreviewCodeLenses(text: string, document: TextDocument, codeLenses: CodeLens[]) {
-    // Detect usage of the 'preview(' function followed by '<' character representing JSX opening tag.
-    // Elliminate lines that contain double slashes indicating a comment.
-    const previewRegex = /^(?:(?!\/\/) )*preview\(\s*<\s*/gm;
-    for (const match of text.matchAll(previewRegex)) {
-      // get the line number where the last character (<) of the matched regex is located
-      const jsxOpeningTagPosition = document.positionAt(match.index + match[0].length - 1);
-      const jsxOpeningTagLine0Based = jsxOpeningTagPosition.line;
+    for (const { callIndex, jsxIndex } of findPreviews(text)) {
+      // get the line number where the JSX opening tag is located
+      const jsxOpeningTagLine0Based = document.positionAt(jsxIndex).line;
       // for the code lens range, we use the first character as we want it to appear over the line where preview is called
-      const previewCallRange = this.createRange(document, match.index);
+      const previewCallRange = this.createRange(document, callIndex);
       const command: Command = {
         title: "Open preview",
         command: "RNIDE.showPanel",
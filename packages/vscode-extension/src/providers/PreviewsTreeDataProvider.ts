@@ -0,0 +1,265 @@
+import fs from "fs";
+import path from "path";
+import {
+  Disposable,
+  EventEmitter,
+  FileSystemWatcher,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  workspace,
+} from "vscode";
+import { Logger } from "../Logger";
+import { throttle } from "../utilities/throttle";
+import {
+  extractStoryComponentName,
+  findPreviews,
+  findStories,
+  isStoryFile,
+  mayContainPreviews,
+} from "../utilities/previewDetection";
+
+const SOURCE_FILES_GLOB = "**/*.{js,jsx,ts,tsx}";
+const EXCLUDE_GLOB = "**/node_modules/**";
+
+type Section = "previews" | "stories";
+
+type PreviewEntry = {
+  kind: "preview";
+  fileName: string;
+  line: number; // 1-based line of the JSX element passed to preview
+  componentName: string;
+};
+
+type StoryEntry = {
+  kind: "story";
+  fileName: string;
+  line: number;
+  componentTitle: string;
+  storyName: string;
+};
+
+type Entry = PreviewEntry | StoryEntry;
+
+type SectionNode = { kind: "section"; section: Section };
+type GroupNode = { kind: "group"; section: Section; label: string };
+
+type PreviewsTreeNode = SectionNode | GroupNode | Entry;
+
+function lineAt(text: string, index: number) {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (text.charCodeAt(i) === 10 /* \n */) {
+      line++;
+    }
+  }
+  return line;
+}
+
+function findEntries(fileName: string, text: string): Entry[] {
+  const entries: Entry[] = [];
+  const isStory = isStoryFile(fileName);
+  if (isStory) {
+    const componentTitle = extractStoryComponentName(text);
+    if (componentTitle) {
+      for (const { index, storyName } of findStories(text)) {
+        entries.push({
+          kind: "story",
+          fileName,
+          line: lineAt(text, index),
+          componentTitle,
+          storyName,
+        });
+      }
+    }
+  }
+  if (isStory || mayContainPreviews(text)) {
+    for (const { jsxIndex, componentName } of findPreviews(text)) {
+      entries.push({
+        kind: "preview",
+        fileName,
+        line: lineAt(text, jsxIndex),
+        componentName: componentName ?? "Preview",
+      });
+    }
+  }
+  return entries;
+}
+
+function getDirectoryLabel(fileName: string) {
+  const directory = workspace.asRelativePath(path.dirname(fileName), false);
+  return directory === path.dirname(fileName) ? path.basename(directory) : directory;
+}
+
+function getGroupLabel(entry: Entry) {
+  return entry.kind === "preview" ? getDirectoryLabel(entry.fileName) : entry.componentTitle;
+}
+
+function compareEntries(a: Entry, b: Entry) {
+  return a.fileName.localeCompare(b.fileName) || a.line - b.line;
+}
+
+/**
+ * Lists preview() calls and Storybook stories from the whole workspace. Files are indexed with the
+ * same patterns the code lenses use and the index is kept up to date with a file system watcher.
+ */
+export class PreviewsTreeDataProvider implements TreeDataProvider<PreviewsTreeNode>, Disposable {
+  public static readonly viewType = "RadonIDE.previews";
+
+  private entriesByFile = new Map<string, Entry[]>();
+  private indexingPromise: Promise<void> | undefined;
+  private watcher: FileSystemWatcher;
+  private onDidChangeTreeDataEmitter = new EventEmitter<void>();
+
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor() {
+    this.watcher = workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    this.watcher.onDidCreate(this.indexFile);
+    this.watcher.onDidChange(this.indexFile);
+    this.watcher.onDidDelete(this.removeFile);
+  }
+
+  public dispose() {
+    this.watcher.dispose();
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+
+  public refresh() {
+    this.entriesByFile.clear();
+    this.indexingPromise = undefined;
+    this.notifyChanged(true);
+  }
+
+  // file changes often come in batches (i.e. when switching branches), so we don't want to
+  // rebuild the tree after each one of them
+  private notifyChanged = throttle(() => {
+    this.onDidChangeTreeDataEmitter.fire();
+  }, 500);
+
+  private indexWorkspace() {
+    if (!this.indexingPromise) {
+      // the workspace is indexed only once the view is shown for the first time
+      this.indexingPromise = (async () => {
+        const files = await workspace.findFiles(SOURCE_FILES_GLOB, EXCLUDE_GLOB);
+        for (const file of files) {
+          await this.readEntries(file);
+        }
+      })();
+    }
+    return this.indexingPromise;
+  }
+
+  private async readEntries(uri: Uri) {
+    if (uri.fsPath.includes(`${path.sep}node_modules${path.sep}`)) {
+      return;
+    }
+    try {
+      const text = await fs.promises.readFile(uri.fsPath, "utf-8");
+      const entries = findEntries(uri.fsPath, text);
+      if (entries.length > 0) {
+        this.entriesByFile.set(uri.fsPath, entries);
+      } else {
+        this.entriesByFile.delete(uri.fsPath);
+      }
+    } catch (e) {
+      Logger.debug(`Couldn't read previews from ${uri.fsPath}`, e);
+      this.entriesByFile.delete(uri.fsPath);
+    }
+  }
+
+  private indexFile = async (uri: Uri) => {
+    if (!this.indexingPromise) {
+      // nothing to update before the initial indexing starts
+      return;
+    }
+    const hadEntries = this.entriesByFile.has(uri.fsPath);
+    await this.readEntries(uri);
+    if (hadEntries || this.entriesByFile.has(uri.fsPath)) {
+      this.notifyChanged();
+    }
+  };
+
+  private removeFile = (uri: Uri) => {
+    if (this.entriesByFile.delete(uri.fsPath)) {
+      this.notifyChanged();
+    }
+  };
+
+  private getEntries(section: Section) {
+    const kind = section === "previews" ? "preview" : "story";
+    return [...this.entriesByFile.values()]
+      .flat()
+      .filter((entry) => entry.kind === kind)
+      .sort(compareEntries);
+  }
+
+  public async getChildren(node?: PreviewsTreeNode): Promise<PreviewsTreeNode[]> {
+    await this.indexWorkspace();
+
+    if (!node) {
+      const sections: Section[] = ["previews", "stories"];
+      return sections
+        .filter((section) => this.getEntries(section).length > 0)
+        .map((section) => ({ kind: "section", section }));
+    }
+
+    switch (node.kind) {
+      case "section": {
+        const labels = new Set(this.getEntries(node.section).map(getGroupLabel));
+        return [...labels]
+          .sort((a, b) => a.localeCompare(b))
+          .map((label) => ({ kind: "group", section: node.section, label }));
+      }
+      case "group":
+        return this.getEntries(node.section).filter((entry) => getGroupLabel(entry) === node.label);
+      default:
+        return [];
+    }
+  }
+
+  public getTreeItem(node: PreviewsTreeNode): TreeItem {
+    switch (node.kind) {
+      case "section": {
+        const label = node.section === "previews" ? "Previews" : "Storybook stories";
+        const item = new TreeItem(label, TreeItemCollapsibleState.Expanded);
+        item.id = node.section;
+        return item;
+      }
+      case "group": {
+        const item = new TreeItem(node.label, TreeItemCollapsibleState.Expanded);
+        item.id = `${node.section}:${node.label}`;
+        item.iconPath = new ThemeIcon(node.section === "previews" ? "folder" : "symbol-class");
+        return item;
+      }
+      case "preview": {
+        const item = new TreeItem(node.componentName, TreeItemCollapsibleState.None);
+        item.id = `preview:${node.fileName}:${node.line}`;
+        item.iconPath = new ThemeIcon("open-preview");
+        item.description = `${path.basename(node.fileName)}:${node.line}`;
+        item.tooltip = `${workspace.asRelativePath(node.fileName)}:${node.line}`;
+        item.command = {
+          title: "Open preview",
+          command: "RNIDE.showPanel",
+          arguments: [node.fileName, node.line],
+        };
+        return item;
+      }
+      case "story": {
+        const item = new TreeItem(node.storyName, TreeItemCollapsibleState.None);
+        item.id = `story:${node.fileName}:${node.storyName}`;
+        item.iconPath = new ThemeIcon("book");
+        item.description = `${path.basename(node.fileName)}:${node.line}`;
+        item.tooltip = `${workspace.asRelativePath(node.fileName)}:${node.line}`;
+        item.command = {
+          title: "Select story",
+          command: "RNIDE.showStorybookStory",
+          arguments: [node.componentTitle, node.storyName],
+        };
+        return item;
+      }
+    }
+  }
+}
@@ -8,6 +8,7 @@ export const ANDROID_HOME =
   Platform.select({
     macos: path.join(os.homedir(), "Library/Android/sdk"),
     windows: path.join(os.homedir(), "AppData\\Local\\Android\\Sdk"),
+    linux: path.join(os.homedir(), "Android/Sdk"),
   });
 
 function findJavaHome() {
@@ -24,11 +25,13 @@ function findJavaHome() {
   const androidStudioPath = Platform.select({
     macos: "/Applications/Android Studio.app",
     windows: path.join(path.parse(os.homedir()).root, "Program Files\\Android\\Android Studio"),
+    linux: "/opt/android-studio",
   });
 
   const jbrPath = Platform.select({
     macos: path.join(androidStudioPath, "Contents/jbr/Contents/Home"),
     windows: path.join(androidStudioPath, "jbr"),
+    linux: path.join(androidStudioPath, "jbr"),
   });
 
   if (fs.existsSync(jbrPath)) {
@@ -38,6 +41,7 @@ function findJavaHome() {
   return Platform.select({
     macos: path.join(androidStudioPath, "Contents/jre/Contents/Home"),
     windows: path.join(androidStudioPath, "jre"),
+    linux: path.join(androidStudioPath, "jre"),
   });
 }
 
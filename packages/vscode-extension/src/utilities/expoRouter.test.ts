@@ -0,0 +1,95 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import assert from "assert";
+import { getExpoRouterRoutes } from "./expoRouter";
+import { setAppRootFolder } from "./extensionContext";
+
+// creates an app in a temporary directory with the given files, expo-router is considered
+// installed when its package.json can be resolved from the app root
+function createApp(files: string[], { withExpoRouter = true } = {}) {
+  const appRoot = fs.mkdtempSync(path.join(os.tmpdir(), "expo-router-test-"));
+  if (withExpoRouter) {
+    files = [...files, "node_modules/expo-router/package.json"];
+  }
+  for (const file of files) {
+    const filePath = path.join(appRoot, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, file.endsWith(".json") ? "{}" : "");
+  }
+  setAppRootFolder(appRoot);
+  return appRoot;
+}
+
+async function withApp(
+  files: string[],
+  callback: () => Promise<void>,
+  options?: { withExpoRouter?: boolean }
+) {
+  const appRoot = createApp(files, options);
+  try {
+    await callback();
+  } finally {
+    fs.rmSync(appRoot, { recursive: true, force: true });
+  }
+}
+
+test("getExpoRouterRoutes() maps files to routes", async function () {
+  await withApp(
+    ["app/index.tsx", "app/about.tsx", "app/settings/index.js", "app/settings/profile.jsx"],
+    async () => {
+      assert.deepEqual(await getExpoRouterRoutes(), [
+        "/",
+        "/about",
+        "/settings",
+        "/settings/profile",
+      ]);
+    }
+  );
+});
+
+test("getExpoRouterRoutes() skips groups in routes", async function () {
+  await withApp(["app/(tabs)/index.tsx", "app/(tabs)/(home)/feed.tsx"], async () => {
+    assert.deepEqual(await getExpoRouterRoutes(), ["/", "/feed"]);
+  });
+});
+
+test("getExpoRouterRoutes() keeps dynamic segments", async function () {
+  await withApp(["app/users/[id].tsx", "app/[...rest].tsx"], async () => {
+    assert.deepEqual(await getExpoRouterRoutes(), ["/[...rest]", "/users/[id]"]);
+  });
+});
+
+test("getExpoRouterRoutes() ignores layouts, special files and API routes", async function () {
+  await withApp(
+    [
+      "app/_layout.tsx",
+      "app/+html.tsx",
+      "app/+not-found.tsx",
+      "app/home.tsx",
+      "app/users/_layout.tsx",
+      "app/users+api.ts",
+      "app/users/[id]+api.ts",
+      "app/styles.css",
+    ],
+    async () => {
+      assert.deepEqual(await getExpoRouterRoutes(), ["/home"]);
+    }
+  );
+});
+
+test("getExpoRouterRoutes() supports the app directory in src", async function () {
+  await withApp(["src/app/index.tsx", "src/app/about.tsx"], async () => {
+    assert.deepEqual(await getExpoRouterRoutes(), ["/", "/about"]);
+  });
+});
+
+test("getExpoRouterRoutes() returns no routes when expo-router isn't installed", async function () {
+  await withApp(
+    ["app/index.tsx"],
+    async () => {
+      assert.deepEqual(await getExpoRouterRoutes(), []);
+    },
+    { withExpoRouter: false }
+  );
+});
@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import { getAppRootFolder } from "./extensionContext";
+
+const ROUTE_FILE_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx"];
+
+function isExpoRouterInstalled(appRoot: string) {
+  try {
+    require.resolve("expo-router/package.json", { paths: [appRoot] });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// converts path of a file relative to the app directory to the route it is served at,
+// returns undefined for files that aren't screens, like layouts, the html template or API routes
+function fileToRoute(relativePath: string) {
+  const segments = relativePath
+    .slice(0, -path.extname(relativePath).length)
+    .split(path.sep)
+    .filter((segment) => !/^\(.*\)$/.test(segment)); // groups don't affect the route
+  const fileName = segments[segments.length - 1];
+  if (fileName === "_layout" || fileName.startsWith("+") || fileName.endsWith("+api")) {
+    return undefined;
+  }
+  if (fileName === "index") {
+    segments.pop();
+  }
+  return "/" + segments.join("/");
+}
+
+async function collectRoutes(dir: string, relativeDir: string, routes: Set<string>) {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const relativePath = path.join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      await collectRoutes(path.join(dir, entry.name), relativePath, routes);
+    } else if (ROUTE_FILE_EXTENSIONS.includes(path.extname(entry.name))) {
+      const route = fileToRoute(relativePath);
+      route && routes.add(route);
+    }
+  }
+}
+
+/**
+ * Lists routes based on the files in the expo-router app directory. Dynamic segments are
+ * kept in the brackets form (i.e. /users/[id]) as the actual values are only known to the app.
+ */
+export async function getExpoRouterRoutes() {
+  const appRoot = getAppRootFolder();
+  if (!isExpoRouterInstalled(appRoot)) {
+    return [];
+  }
+  // expo-router also supports keeping the app directory in src
+  for (const appDir of ["app", path.join("src", "app")]) {
+    const routes = new Set<string>();
+    try {
+      await collectRoutes(path.join(appRoot, appDir), "", routes);
+    } catch (e) {
+      continue;
+    }
+    return [...routes].sort();
+  }
+  return [];
+}
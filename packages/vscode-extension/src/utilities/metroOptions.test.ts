@@ -0,0 +1,55 @@
+import assert from "assert";
+import { validateMetroOptions } from "./metroOptions";
+
+test("validateMetroOptions() accepts missing configuration", function () {
+  assert.deepEqual(validateMetroOptions(undefined), { options: undefined, errors: [] });
+});
+
+test("validateMetroOptions() rejects configuration that isn't an object", function () {
+  assert.deepEqual(validateMetroOptions("8081").errors, ['"metro" must be an object.']);
+  assert.deepEqual(validateMetroOptions([]).errors, ['"metro" must be an object.']);
+});
+
+test("validateMetroOptions() returns valid options", function () {
+  const metro = { args: ["--max-workers=2"], port: 8082, entryFile: "index.js", host: "0.0.0.0" };
+
+  assert.deepEqual(validateMetroOptions(metro), { options: metro, errors: [] });
+});
+
+test("validateMetroOptions() drops invalid ports", function () {
+  for (const port of [0, 65536, 80.5, NaN, "8081"]) {
+    const { options, errors } = validateMetroOptions({ port, host: "localhost" });
+
+    assert.deepEqual(options, { host: "localhost" });
+    assert.deepEqual(errors, ['"metro.port" must be an integer between 1 and 65535.']);
+  }
+  assert.deepEqual(validateMetroOptions({ attachToPort: -1 }).errors, [
+    '"metro.attachToPort" must be an integer between 1 and 65535.',
+  ]);
+});
+
+test("validateMetroOptions() drops invalid entry files and hosts", function () {
+  const { options, errors } = validateMetroOptions({ entryFile: "  ", host: 42 });
+
+  assert.deepEqual(options, {});
+  assert.deepEqual(errors, [
+    '"metro.entryFile" must be a non-empty string.',
+    '"metro.host" must be a non-empty string.',
+  ]);
+});
+
+test("validateMetroOptions() rejects arguments controlled by the IDE", function () {
+  assert.deepEqual(validateMetroOptions({ args: ["--port=8082"] }).errors, [
+    '"metro.args" can\'t contain "--port=8082" as it is set by the IDE, use "metro.port" instead.',
+  ]);
+  assert.deepEqual(validateMetroOptions({ args: ["--verbose", 1] }).errors, [
+    '"metro.args" must be an array of strings.',
+  ]);
+});
+
+test("validateMetroOptions() warns about options ignored when attaching", function () {
+  const { options, errors } = validateMetroOptions({ attachToPort: 8081, port: 8082 });
+
+  assert.deepEqual(options, { attachToPort: 8081, port: 8082 });
+  assert.equal(errors.length, 1);
+});
@@ -0,0 +1,93 @@
+import { LaunchConfigurationOptions } from "../common/LaunchConfig";
+
+type MetroOptions = NonNullable<LaunchConfigurationOptions["metro"]>;
+
+// these arguments are controlled by the IDE and have dedicated configuration options
+const RESERVED_METRO_ARGS: Record<string, string | undefined> = {
+  "--port": '"metro.port"',
+  "--host": '"metro.host"',
+  "--config": '"metroConfigPath"',
+  "--customLogReporterPath": undefined,
+};
+
+function isValidPort(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 && value < 65536;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Validates the "metro" section of the launch configuration. Invalid entries are dropped
+ * from the returned options and described in the returned errors.
+ */
+export function validateMetroOptions(metro: unknown) {
+  const errors: string[] = [];
+  if (metro === undefined) {
+    return { options: undefined, errors };
+  }
+  if (typeof metro !== "object" || metro === null || Array.isArray(metro)) {
+    errors.push('"metro" must be an object.');
+    return { options: undefined, errors };
+  }
+
+  const { args, port, entryFile, host, attachToPort } = metro as Record<string, unknown>;
+  const options: MetroOptions = {};
+
+  if (args !== undefined) {
+    if (!Array.isArray(args) || !args.every((arg) => typeof arg === "string")) {
+      errors.push('"metro.args" must be an array of strings.');
+    } else {
+      const reservedArg = args.find((arg) => arg.split("=")[0] in RESERVED_METRO_ARGS);
+      if (reservedArg !== undefined) {
+        const replacement = RESERVED_METRO_ARGS[reservedArg.split("=")[0]];
+        errors.push(
+          `"metro.args" can't contain "${reservedArg}" as it is set by the IDE` +
+            (replacement ? `, use ${replacement} instead.` : ".")
+        );
+      } else {
+        options.args = args;
+      }
+    }
+  }
+  if (port !== undefined) {
+    if (isValidPort(port)) {
+      options.port = port;
+    } else {
+      errors.push('"metro.port" must be an integer between 1 and 65535.');
+    }
+  }
+  if (entryFile !== undefined) {
+    if (isNonEmptyString(entryFile)) {
+      options.entryFile = entryFile;
+    } else {
+      errors.push('"metro.entryFile" must be a non-empty string.');
+    }
+  }
+  if (host !== undefined) {
+    if (isNonEmptyString(host)) {
+      options.host = host;
+    } else {
+      errors.push('"metro.host" must be a non-empty string.');
+    }
+  }
+  if (attachToPort !== undefined) {
+    if (isValidPort(attachToPort)) {
+      options.attachToPort = attachToPort;
+    } else {
+      errors.push('"metro.attachToPort" must be an integer between 1 and 65535.');
+    }
+  }
+
+  if (
+    options.attachToPort !== undefined &&
+    (options.args || options.port || options.entryFile || options.host)
+  ) {
+    errors.push(
+      '"metro.args", "metro.port", "metro.entryFile" and "metro.host" are ignored when "metro.attachToPort" is set.'
+    );
+  }
+
+  return { options, errors };
+}
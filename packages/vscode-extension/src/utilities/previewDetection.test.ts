@@ -0,0 +1,72 @@
+import assert from "assert";
+import {
+  extractStoryComponentName,
+  findPreviews,
+  findStories,
+  isStoryFile,
+  mayContainPreviews,
+} from "./previewDetection";
+
+test("isStoryFile() detects story files by extension", function () {
+  assert.equal(isStoryFile("Button.stories.tsx"), true);
+  assert.equal(isStoryFile("Button.stories.js"), true);
+  assert.equal(isStoryFile("Button.tsx"), false);
+  assert.equal(isStoryFile("Button.stories.md"), false);
+});
+
+test("mayContainPreviews() checks for the package import", function () {
+  assert.equal(mayContainPreviews('import { preview } from "radon-ide";'), true);
+  assert.equal(mayContainPreviews('import { preview } from "react-native-ide";'), true);
+  assert.equal(mayContainPreviews("preview(<Button />);"), false);
+});
+
+test("findPreviews() finds preview calls with the opening tag position", function () {
+  const text = 'import { preview } from "radon-ide";\n\npreview(<Button title="Hi" />);\n';
+  const callIndex = text.indexOf("preview(");
+
+  assert.deepEqual(findPreviews(text), [
+    { callIndex, jsxIndex: text.indexOf("<Button"), componentName: "Button" },
+  ]);
+});
+
+test("findPreviews() handles whitespace around the opening tag", function () {
+  const text = "preview(\n  <  Card.Header>\n  </Card.Header>\n);";
+
+  assert.deepEqual(findPreviews(text), [
+    { callIndex: 0, jsxIndex: text.indexOf("<"), componentName: "Card.Header" },
+  ]);
+});
+
+test("findPreviews() finds indented calls and skips commented out ones", function () {
+  const text = "  preview(<A />);\n// preview(<B />);\n  // preview(<C />);\npreview(<D />);";
+
+  assert.deepEqual(
+    findPreviews(text).map((match) => match.componentName),
+    ["A", "D"]
+  );
+});
+
+test("findPreviews() ignores calls without JSX", function () {
+  assert.deepEqual(findPreviews("preview(element);"), []);
+});
+
+test("findStories() finds exported stories", function () {
+  const text = [
+    "const meta = { title: 'Button' };",
+    "export const Basic: Story = {};",
+    "export let Disabled = {};",
+    "// export const Hidden = {};",
+    "export default meta;",
+  ].join("\n");
+
+  assert.deepEqual(findStories(text), [
+    { index: text.indexOf("export const Basic"), storyName: "Basic" },
+    { index: text.indexOf("export let Disabled"), storyName: "Disabled" },
+  ]);
+});
+
+test("extractStoryComponentName() prefers the title over the component", function () {
+  assert.equal(extractStoryComponentName("title: 'Buttons', component: Button"), "Buttons");
+  assert.equal(extractStoryComponentName("component: Button"), "Button");
+  assert.equal(extractStoryComponentName("export default {};"), null);
+});
@@ -0,0 +1,70 @@
+// Detection of preview() calls and Storybook stories in source files. It is based on regexes rather
+// than parsing the code as it needs to be fast enough to run on every file in the workspace.
+
+export type PreviewMatch = {
+  callIndex: number; // index of the preview call in the text
+  jsxIndex: number; // index of the opening tag of the element passed to preview
+  componentName: string | undefined;
+};
+
+export type StoryMatch = {
+  index: number;
+  storyName: string;
+};
+
+export function isStoryFile(fileName: string) {
+  // We detect whether a file is a storybook story based on filename.
+  // If is ends with ".stories.js/ts/jsx/tsx", we treat it as a story file.
+  return /\.stories\.(js|ts|jsx|tsx)$/.test(fileName);
+}
+
+export function mayContainPreviews(text: string) {
+  // we use previous NPM package name for compatibility
+  return text.includes("react-native-ide") || text.includes("radon-ide");
+}
+
+export function extractStoryComponentName(text: string): string | null {
+  // Search for a "title" or a "component" field within the text to identify the component name.
+  // If no "title" field is present, then search for the "component" field,
+  // which is mandatory in the Component Story Format (CSF).
+  let componentName: string | null = null;
+  // Detected example: title: "#ComponentTitle#".
+  const titlePropRegex = /title:\s*(['"`])(\w+)\1/;
+  const titlePropMatch = titlePropRegex.exec(text);
+  if (titlePropMatch) {
+    componentName = titlePropMatch[2];
+  } else {
+    // Detected example: component: #ComponentName#.
+    const componentRegex = /component:\s*(\w+)/;
+    const componentMatch = componentRegex.exec(text);
+    if (componentMatch) {
+      componentName = componentMatch[1];
+    }
+  }
+  return componentName;
+}
+
+export function findStories(text: string): StoryMatch[] {
+  // Detect stories defined in the Component Story Format (CSF).
+  // Each named export within the file corresponds to a story object.
+  // The pattern captures stories with whitespace between 'export' and identifiers like 'const', 'let', or 'var',
+  // and it excludes lines commented out with double slashes preceding the export.
+  // Detected example: export const Basic: Story =
+  const storyRegex = /^(?:(?!\/\/) )*export\s+(const|let|var)\s+(\w+)(?::\s*\w+\s*)? =/gm;
+  return [...text.matchAll(storyRegex)].map((match) => ({
+    index: match.index!,
+    storyName: match[2],
+  }));
+}
+
+export function findPreviews(text: string): PreviewMatch[] {
+  // Detect usage of the 'preview(' function followed by '<' character representing JSX opening tag.
+  // Elliminate lines that contain double slashes indicating a comment.
+  // The part preceding the opening tag is captured such that we can tell where the tag starts.
+  const previewRegex = /^((?:(?!\/\/) )*preview\(\s*)<\s*/gm;
+  return [...text.matchAll(previewRegex)].map((match) => ({
+    callIndex: match.index!,
+    jsxIndex: match.index! + match[1].length,
+    componentName: /^[\w.]+/.exec(text.slice(match.index! + match[0].length))?.[0],
+  }));
+}
@@ -0,0 +1,114 @@
+import path from "path";
+import { Worker } from "worker_threads";
+import { Disposable, workspace } from "vscode";
+import { Logger } from "../Logger";
+import { extensionContext } from "./extensionContext";
+
+export type PreviewPropType = {
+  name: string;
+  type: string;
+  options: string[] | undefined;
+};
+
+type PropTypesResponse = {
+  requestId: number;
+  propTypes?: PreviewPropType[];
+  error?: string;
+};
+
+const SOURCE_FILES_GLOB = "**/*.{js,jsx,ts,tsx}";
+const CONFIG_FILES_GLOB = "**/{tsconfig,jsconfig,package}.json";
+
+/**
+ * Reads types of props of the elements passed to preview() calls. The types are read by the
+ * TypeScript language service running in a worker thread (see lib/preview_prop_types.js), which is
+ * kept for the whole project and notified about file changes such that it only rebuilds what changed.
+ */
+export class PreviewPropTypes implements Disposable {
+  private worker: Worker | undefined;
+  private lastRequestId = 0;
+  private pendingRequests = new Map<number, (propTypes: PreviewPropType[] | undefined) => void>();
+  // results are kept until any of the files changes, as types may come from the imported files
+  private cache = new Map<string, Promise<PreviewPropType[] | undefined>>();
+  private watchers: Disposable[];
+
+  constructor(private readonly appRoot: string) {
+    const sourceFilesWatcher = workspace.createFileSystemWatcher(SOURCE_FILES_GLOB);
+    sourceFilesWatcher.onDidChange((uri) =>
+      this.notifyWorker({ type: "fileChanged", fileName: uri.fsPath })
+    );
+    sourceFilesWatcher.onDidCreate(() => this.notifyWorker({ type: "projectChanged" }));
+    sourceFilesWatcher.onDidDelete(() => this.notifyWorker({ type: "projectChanged" }));
+    const configFilesWatcher = workspace.createFileSystemWatcher(CONFIG_FILES_GLOB);
+    configFilesWatcher.onDidChange(() => this.notifyWorker({ type: "projectChanged" }));
+    configFilesWatcher.onDidCreate(() => this.notifyWorker({ type: "projectChanged" }));
+    configFilesWatcher.onDidDelete(() => this.notifyWorker({ type: "projectChanged" }));
+    this.watchers = [sourceFilesWatcher, configFilesWatcher];
+  }
+
+  private notifyWorker(
+    message: { type: "fileChanged"; fileName: string } | { type: "projectChanged" }
+  ) {
+    this.cache.clear();
+    this.worker?.postMessage(message);
+  }
+
+  private getWorker() {
+    if (this.worker) {
+      return this.worker;
+    }
+    const workerPath = path.join(extensionContext.extensionPath, "lib", "preview_prop_types.js");
+    const worker = new Worker(workerPath, { workerData: { appRoot: this.appRoot } });
+    worker.on("message", ({ requestId, propTypes, error }: PropTypesResponse) => {
+      if (error) {
+        Logger.debug("Couldn't read preview prop types", error);
+      }
+      this.pendingRequests.get(requestId)?.(propTypes);
+      this.pendingRequests.delete(requestId);
+    });
+    worker.on("error", (e) => {
+      Logger.debug("Preview prop types worker failed", e);
+    });
+    worker.on("exit", () => {
+      // the worker is started again with the next request
+      if (this.worker === worker) {
+        this.worker = undefined;
+        this.cache.clear();
+        this.resolvePendingRequests();
+      }
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  private resolvePendingRequests() {
+    this.pendingRequests.forEach((resolve) => resolve(undefined));
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Reads types of props of the element passed to preview() call at the given line of the file.
+   * Resolves to undefined when the types can't be determined.
+   */
+  public getPreviewPropTypes(fileName: string, line0Based: number) {
+    const cacheKey = `${fileName}:${line0Based}`;
+    let result = this.cache.get(cacheKey);
+    if (!result) {
+      const requestId = ++this.lastRequestId;
+      result = new Promise<PreviewPropType[] | undefined>((resolve) => {
+        this.pendingRequests.set(requestId, resolve);
+        this.getWorker().postMessage({ type: "getPropTypes", requestId, fileName, line0Based });
+      });
+      this.cache.set(cacheKey, result);
+    }
+    return result;
+  }
+
+  public dispose() {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    const worker = this.worker;
+    this.worker = undefined;
+    worker?.terminate();
+    this.resolvePendingRequests();
+  }
+}
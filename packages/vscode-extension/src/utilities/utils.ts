@@ -31,6 +31,7 @@ export class Utils implements UtilsInterface {
         Platform.select({
           macos: path.join("Library", "Application Support"),
           windows: path.join("AppDat", "Roaming"),
+          linux: ".config",
         }),
         ideName,
         "User",
@@ -0,0 +1,64 @@
+import { BundleErrorDescriptor } from "../../common/Project";
+import { useProject } from "../providers/ProjectProvider";
+import { useUtils } from "../providers/UtilsProvider";
+import "./BundleErrorOverlay.css";
+
+type Props = {
+  bundleError: BundleErrorDescriptor | undefined;
+};
+
+function BundleErrorOverlay({ bundleError }: Props) {
+  const { project } = useProject();
+  const { openFileAt } = useUtils();
+
+  const reloadButton = (
+    <button className="uncaught-button" onClick={() => project.restart(false)}>
+      Bundle error&nbsp;
+      <span className="codicon codicon-refresh" />
+    </button>
+  );
+
+  if (!bundleError) {
+    return reloadButton;
+  }
+
+  const { location } = bundleError;
+  const fileName = location?.filePath.split(/[\\/]/).pop();
+
+  return (
+    <div className="bundle-error-container">
+      {reloadButton}
+      <div className="bundle-error-details">
+        {bundleError.type && <div className="bundle-error-type">{bundleError.type}</div>}
+        <div className="bundle-error-message">{bundleError.message}</div>
+        {bundleError.targetModuleName && (
+          <div>
+            Module: <code>{bundleError.targetModuleName}</code>
+          </div>
+        )}
+        {location && (
+          <button
+            className="bundle-error-location"
+            title={location.filePath}
+            onClick={() =>
+              openFileAt(location.filePath, location.line0Based, location.column0Based)
+            }>
+            {fileName}:{location.line0Based + 1}
+          </button>
+        )}
+        {bundleError.codeFrame && (
+          <pre className="bundle-error-code-frame">{bundleError.codeFrame}</pre>
+        )}
+        {bundleError.descriptions.length > 0 && (
+          <ul className="bundle-error-descriptions">
+            {bundleError.descriptions.map((description, index) => (
+              <li key={index}>{description}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BundleErrorOverlay;
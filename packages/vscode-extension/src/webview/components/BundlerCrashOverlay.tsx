@@ -0,0 +1,54 @@
+import { BundlerCrashDescriptor } from "../../common/Project";
+import { useProject } from "../providers/ProjectProvider";
+import { useModal } from "../providers/ModalProvider";
+import MetroLogsView from "../views/MetroLogsView";
+import Button from "./shared/Button";
+import "./BundleErrorOverlay.css";
+
+type Props = {
+  bundlerCrash: BundlerCrashDescriptor | undefined;
+};
+
+function BundlerCrashOverlay({ bundlerCrash }: Props) {
+  const { project } = useProject();
+  const { openModal } = useModal();
+
+  const willRetry = bundlerCrash?.willRetry ?? false;
+
+  return (
+    <div className="bundle-error-container">
+      <div className="uncaught-button">
+        Metro bundler crashed&nbsp;
+        <span className="codicon codicon-error" />
+      </div>
+      <div className="bundle-error-details">
+        {willRetry ? (
+          <div className="bundle-error-message">
+            Restarting Metro (attempt {bundlerCrash!.attempt + 1} of {bundlerCrash!.maxAttempts}
+            )...
+          </div>
+        ) : (
+          <div className="bundle-error-message">
+            Metro keeps crashing and won't be restarted automatically. Check the output below and
+            the Metro logs, fix the problem and restart Metro.
+          </div>
+        )}
+        {bundlerCrash && bundlerCrash.lastStderrLines.length > 0 && (
+          <pre className="bundle-error-code-frame">{bundlerCrash.lastStderrLines.join("\n")}</pre>
+        )}
+        {!willRetry && (
+          <div className="bundler-crash-actions">
+            <Button onClick={() => project.restart("metro")}>
+              <span className="codicon codicon-refresh" /> Restart Metro
+            </Button>
+            <Button type="secondary" onClick={() => openModal("Metro Logs", <MetroLogsView />)}>
+              <span className="codicon codicon-output" /> Metro logs
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BundlerCrashOverlay;
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { ComponentDetails, ComponentValueTarget, InspectedValue } from "../../common/Project";
+import { useUtils } from "../providers/UtilsProvider";
+import IconButton from "./shared/IconButton";
+import Button from "./shared/Button";
+
+type EditCallback = (path: string[], value: unknown) => void;
+
+function describeValue(value: InspectedValue) {
+  switch (value.type) {
+    case "string":
+      return JSON.stringify(value.value);
+    case "number":
+    case "boolean":
+      return String(value.value);
+    case "null":
+    case "undefined":
+      return value.type;
+    case "function":
+      return `ƒ ${value.name}()`;
+    case "object":
+      return value.preview;
+    case "other":
+      return value.description;
+  }
+}
+
+function parseInput(text: string, previous: InspectedValue) {
+  if (previous.type === "number") {
+    const number = Number(text);
+    return Number.isNaN(number) ? text : number;
+  }
+  if (previous.type === "null") {
+    // null values don't tell what type they should have, we try to interpret the input as JSON
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+type ValueEditorProps = {
+  value: Extract<InspectedValue, { type: "string" | "number" | "null" }>;
+  onEdit: (value: unknown) => void;
+};
+
+function ValueEditor({ value, onEdit }: ValueEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (!isEditing) {
+    return (
+      <span
+        className={`component-value-${value.type} component-value-editable`}
+        title="Click to edit"
+        onClick={() => setIsEditing(true)}>
+        {describeValue(value)}
+      </span>
+    );
+  }
+
+  const commit = (text: string) => {
+    setIsEditing(false);
+    onEdit(parseInput(text, value));
+  };
+
+  return (
+    <input
+      className="component-value-input"
+      autoFocus
+      defaultValue={value.type === "null" ? "null" : String(value.value)}
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          commit(e.currentTarget.value);
+        } else if (e.key === "Escape") {
+          setIsEditing(false);
+        }
+      }}
+    />
+  );
+}
+
+type InspectedValueViewProps = {
+  name: string;
+  value: InspectedValue;
+  path: string[];
+  onEdit: EditCallback;
+};
+
+function InspectedValueView({ name, value, path, onEdit }: InspectedValueViewProps) {
+  if (value.type === "object" && value.entries !== undefined && value.entries.length > 0) {
+    return (
+      <details className="component-value">
+        <summary>
+          <span className="component-value-name">{name}</span>: {value.preview}
+        </summary>
+        <div className="component-value-entries">
+          {value.entries.map(([key, entry]) => (
+            <InspectedValueView
+              key={key}
+              name={key}
+              value={entry}
+              path={[...path, key]}
+              onEdit={onEdit}
+            />
+          ))}
+        </div>
+      </details>
+    );
+  }
+
+  let valueView;
+  if (value.type === "boolean") {
+    valueView = (
+      <label className="component-value-boolean">
+        <input
+          type="checkbox"
+          checked={value.value}
+          onChange={(e) => onEdit(path, e.target.checked)}
+        />
+        {String(value.value)}
+      </label>
+    );
+  } else if (value.type === "string" || value.type === "number" || value.type === "null") {
+    valueView = <ValueEditor value={value} onEdit={(newValue) => onEdit(path, newValue)} />;
+  } else {
+    valueView = <span className={`component-value-${value.type}`}>{describeValue(value)}</span>;
+  }
+
+  return (
+    <div className="component-value">
+      <span className="component-value-name">{name}</span>: {valueView}
+    </div>
+  );
+}
+
+function PropOverrideForm({ onEdit }: { onEdit: EditCallback }) {
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+
+  const submit = () => {
+    let parsedValue: unknown = value;
+    try {
+      parsedValue = JSON.parse(value);
+    } catch {
+      // values that aren't valid JSON are passed as strings
+    }
+    onEdit([name.trim()], parsedValue);
+    setName("");
+    setValue("");
+  };
+
+  return (
+    <div className="component-prop-override">
+      <input
+        className="component-value-input"
+        placeholder="prop"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <input
+        className="component-value-input"
+        placeholder="value (JSON)"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && name.trim() && submit()}
+      />
+      <Button type="secondary" disabled={!name.trim()} onClick={submit}>
+        Set
+      </Button>
+    </div>
+  );
+}
+
+type ComponentDetailsViewProps = {
+  details: ComponentDetails;
+  onOverride: (target: ComponentValueTarget, path: string[], value: unknown) => void;
+};
+
+function ComponentDetailsView({ details, onOverride }: ComponentDetailsViewProps) {
+  const { openFileAt } = useUtils();
+  const { source } = details;
+  const propEntries = details.props.type === "object" ? details.props.entries ?? [] : [];
+  const onPropEdit: EditCallback = (path, value) => onOverride({ type: "props" }, path, value);
+
+  return (
+    <div className="component-details">
+      <div className="component-details-header">
+        <span className="component-details-name">{details.name}</span>
+        {source && (
+          <IconButton
+            tooltip={{ label: "Go to source" }}
+            onClick={() => openFileAt(source.fileName, source.line0Based, source.column0Based)}>
+            <span className="codicon codicon-go-to-file" />
+          </IconButton>
+        )}
+      </div>
+      <div className="component-details-section">Props</div>
+      {propEntries.length === 0 && <div className="component-details-empty">No props</div>}
+      {propEntries.map(([key, value]) => (
+        <InspectedValueView key={key} name={key} value={value} path={[key]} onEdit={onPropEdit} />
+      ))}
+      <PropOverrideForm onEdit={onPropEdit} />
+      {details.state && (
+        <>
+          <div className="component-details-section">State</div>
+          <InspectedValueView
+            name="state"
+            value={details.state}
+            path={[]}
+            onEdit={(path, value) => onOverride({ type: "state" }, path, value)}
+          />
+        </>
+      )}
+      {details.hooks.length > 0 && (
+        <>
+          <div className="component-details-section">Hooks</div>
+          {details.hooks.map(({ index, value }) => (
+            <InspectedValueView
+              key={index}
+              name={`State (hook #${index})`}
+              value={value}
+              path={[]}
+              onEdit={(path, newValue) => onOverride({ type: "hook", index }, path, newValue)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComponentDetailsView;
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import classNames from "classnames";
+import {
+  ComponentDetails,
+  ComponentTreeNode,
+  ComponentValueTarget,
+  Frame,
+} from "../../common/Project";
+import { useProject } from "../providers/ProjectProvider";
+import IconButton from "./shared/IconButton";
+import ComponentDetailsView from "./ComponentDetailsView";
+import "./ComponentTreePanel.css";
+
+function matchesFilter(node: ComponentTreeNode, filter: string): boolean {
+  return (
+    node.name.toLowerCase().includes(filter) ||
+    node.children.some((child) => matchesFilter(child, filter))
+  );
+}
+
+type ComponentTreeNodeViewProps = {
+  node: ComponentTreeNode;
+  depth: number;
+  filter: string;
+  selectedId: number | undefined;
+  collapsedIds: Set<number>;
+  onSelect: (id: number) => void;
+  onToggle: (id: number) => void;
+  onHover: (id: number) => void;
+};
+
+function ComponentTreeNodeView(props: ComponentTreeNodeViewProps) {
+  const { node, depth, filter, selectedId, collapsedIds, onSelect, onToggle, onHover } = props;
+  if (filter && !matchesFilter(node, filter)) {
+    return null;
+  }
+  const isCollapsed = collapsedIds.has(node.id) && !filter;
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <>
+      <div
+        className={classNames("component-tree-node", selectedId === node.id && "selected")}
+        style={{ paddingLeft: depth * 12 }}
+        onClick={() => onSelect(node.id)}
+        onMouseEnter={() => onHover(node.id)}>
+        <span
+          className={classNames(
+            "codicon",
+            hasChildren && (isCollapsed ? "codicon-chevron-right" : "codicon-chevron-down"),
+            "component-tree-toggle"
+          )}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle(node.id);
+          }}
+        />
+        {node.name}
+      </div>
+      {!isCollapsed &&
+        node.children.map((child) => (
+          <ComponentTreeNodeView key={child.id} {...props} node={child} depth={depth + 1} />
+        ))}
+    </>
+  );
+}
+
+type ComponentTreePanelProps = {
+  selectedId: number | undefined;
+  onSelect: (id: number) => void;
+  onHighlight: (frame: Frame | null) => void;
+};
+
+function ComponentTreePanel({ selectedId, onSelect, onHighlight }: ComponentTreePanelProps) {
+  const { project, projectState } = useProject();
+  const [tree, setTree] = useState<ComponentTreeNode[]>([]);
+  const [collapsedIds, setCollapsedIds] = useState<Set<number>>(new Set());
+  const [details, setDetails] = useState<ComponentDetails | undefined>(undefined);
+  const [filter, setFilter] = useState("");
+  const hoveredIdRef = useRef<number | undefined>(undefined);
+
+  const refreshTree = useCallback(() => {
+    project.getComponentTree().then(setTree);
+  }, [project]);
+
+  const isRunning = projectState.status === "running";
+  useEffect(() => {
+    // the tree changes on navigation and after fast refresh, which both end with running status
+    if (isRunning) {
+      refreshTree();
+    }
+    project.addListener("navigationChanged", refreshTree);
+    return () => {
+      project.removeListener("navigationChanged", refreshTree);
+    };
+  }, [refreshTree, isRunning]);
+
+  useEffect(() => {
+    if (selectedId === undefined) {
+      setDetails(undefined);
+      return;
+    }
+    project.inspectComponent(selectedId).then(setDetails);
+  }, [project, selectedId, tree]);
+
+  const onOverride = (target: ComponentValueTarget, path: string[], value: unknown) => {
+    if (selectedId === undefined) {
+      return;
+    }
+    project.overrideComponentValue(selectedId, target, path, value).then((newDetails) => {
+      // details are left as they were when the override fails, the error is reported by the extension
+      newDetails && setDetails(newDetails);
+    });
+  };
+
+  const onToggle = (id: number) => {
+    const newCollapsedIds = new Set(collapsedIds);
+    if (!newCollapsedIds.delete(id)) {
+      newCollapsedIds.add(id);
+    }
+    setCollapsedIds(newCollapsedIds);
+  };
+
+  const onHover = (id: number) => {
+    hoveredIdRef.current = id;
+    project.getComponentFrame(id).then((frame) => {
+      // the frame may arrive after the pointer already moved elsewhere
+      if (hoveredIdRef.current === id) {
+        onHighlight(frame ?? null);
+      }
+    });
+  };
+
+  const onMouseLeave = () => {
+    hoveredIdRef.current = undefined;
+    onHighlight(null);
+  };
+
+  return (
+    <div className="component-tree-panel" onMouseLeave={onMouseLeave}>
+      <div className="component-tree-column">
+        <div className="component-tree-toolbar">
+          <input
+            className="component-tree-filter"
+            placeholder="Filter components"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value.toLowerCase())}
+          />
+          <IconButton tooltip={{ label: "Refresh component tree" }} onClick={refreshTree}>
+            <span className="codicon codicon-refresh" />
+          </IconButton>
+        </div>
+        <div className="component-tree-list">
+          {tree.length === 0 && (
+            <div className="component-details-empty">Component tree is not available</div>
+          )}
+          {tree.map((node) => (
+            <ComponentTreeNodeView
+              key={node.id}
+              node={node}
+              depth={0}
+              filter={filter}
+              selectedId={selectedId}
+              collapsedIds={collapsedIds}
+              onSelect={onSelect}
+              onToggle={onToggle}
+              onHover={onHover}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="component-tree-column">
+        {details ? (
+          <ComponentDetailsView details={details} onOverride={onOverride} />
+        ) : (
+          <div className="component-details-empty">Select a component to see its details</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ComponentTreePanel;
@@ -45,6 +45,7 @@ type InspectDataMenuProps = {
   frame: Frame | null;
   onSelected: OnSelectedCallback;
   onHover: OnSelectedCallback;
+  onInspectComponent?: OnSelectedCallback;
   onCancel: () => void;
 };
 
@@ -55,6 +56,7 @@ export function InspectDataMenu({
   frame,
   onSelected,
   onHover,
+  onInspectComponent,
   onCancel,
 }: InspectDataMenuProps) {
   const [shouldShowAll, setShouldShowAll] = useState(false);
@@ -78,6 +80,7 @@ export function InspectDataMenu({
       : filteredData.slice(0, MAX_INSPECT_ITEMS);
   const inspectMenuAlign = inspectLocation.x <= window.innerWidth / 2 ? "start" : "end";
   const isOverMaxItems = filteredData.length > MAX_INSPECT_ITEMS + 1;
+  const editableItem = filteredData.find((item) => item.componentId !== undefined);
 
   return (
     <DropdownMenu.Root
@@ -121,6 +124,20 @@ export function InspectDataMenu({
               <DropdownMenu.Label className="inspect-data-menu-label">Show all</DropdownMenu.Label>
             </DropdownMenu.Item>
           )}
+          {onInspectComponent && editableItem && (
+            <>
+              <DropdownMenu.Separator className="inspect-data-menu-separator" />
+              <DropdownMenu.Item
+                className="inspect-data-menu-item"
+                key={"inspect-component"}
+                onSelect={() => onInspectComponent(editableItem)}>
+                <span className="codicon codicon-edit" />
+                <span>
+                  Edit props & state of <code>{`<${editableItem.componentName}>`}</code>
+                </span>
+              </DropdownMenu.Item>
+            </>
+          )}
         </DropdownMenu.Content>
       </DropdownMenu.Portal>
     </DropdownMenu.Root>
@@ -13,6 +13,9 @@ import {
 import PreviewLoader from "./PreviewLoader";
 import { useBuildErrorAlert, useBundleErrorAlert } from "../hooks/useBuildErrorAlert";
 import Debugger from "./Debugger";
+import BundleErrorOverlay from "./BundleErrorOverlay";
+import BundlerCrashOverlay from "./BundlerCrashOverlay";
+import Button from "./shared/Button";
 import { useNativeRebuildAlert } from "../hooks/useNativeRebuildAlert";
 import {
   Frame,
@@ -234,6 +237,8 @@ function Preview({
   const hasBuildError = projectStatus === "buildError";
   const hasIncrementalBundleError = projectStatus === "incrementalBundleError";
   const hasBundleError = projectStatus === "bundleError";
+  const hasBundlerCrashed = projectStatus === "bundlerCrashed";
+  const isAppDisconnected = projectStatus === "running" && !!projectState.appDisconnected;
 
   const debugPaused = projectStatus === "debuggerPaused";
   const debugException = projectStatus === "runtimeError";
@@ -241,7 +246,7 @@ function Preview({
   const previewURL = projectState.previewURL;
 
   const isStarting =
-    hasBundleError || hasIncrementalBundleError || debugException
+    hasBundleError || hasIncrementalBundleError || hasBundlerCrashed || debugException
       ? false
       : !projectState || projectState.status === "starting";
   const showDevicePreview =
@@ -331,6 +336,8 @@ function Preview({
     debugException ||
     hasBundleError ||
     hasIncrementalBundleError ||
+    hasBundlerCrashed ||
+    isAppDisconnected ||
     !showDevicePreview ||
     !!replayData;
 
@@ -499,6 +506,7 @@ function Preview({
         const isMultitouchKeyPressed = Platform.select({
           macos: e.code === "AltLeft" || e.code === "AltRight",
           windows: e.code === "ControlLeft" || e.code === "ControlRight",
+          linux: e.code === "ControlLeft" || e.code === "ControlRight",
         });
 
         if (isMultitouchKeyPressed) {
@@ -641,25 +649,22 @@ function Preview({
                     </button>
                   </div>
                 )}
-                {/* TODO: Add different label in case of bundle/incremental bundle error */}
-                {hasBundleError && (
+                {(hasBundleError || hasIncrementalBundleError) && (
                   <div className="phone-screen phone-debug-overlay phone-exception-overlay">
-                    <button
-                      className="uncaught-button"
-                      onClick={() => {
-                        project.restart(false);
-                      }}>
-                      Bundle error&nbsp;
-                      <span className="codicon codicon-refresh" />
-                    </button>
+                    <BundleErrorOverlay bundleError={projectState.bundleError} />
                   </div>
                 )}
-                {hasIncrementalBundleError && (
+                {isAppDisconnected && (
+                  <div className="phone-screen phone-refreshing-overlay">
+                    <div>App disconnected, waiting for it to reconnect...</div>
+                    <Button type="secondary" onClick={() => project.restart(false)}>
+                      <span className="codicon codicon-refresh" /> Restart app
+                    </Button>
+                  </div>
+                )}
+                {hasBundlerCrashed && (
                   <div className="phone-screen phone-debug-overlay phone-exception-overlay">
-                    <button className="uncaught-button" onClick={() => project.restart(false)}>
-                      Bundle error&nbsp;
-                      <span className="codicon codicon-refresh" />
-                    </button>
+                    <BundlerCrashOverlay bundlerCrash={projectState.bundlerCrash} />
                   </div>
                 )}
               </div>
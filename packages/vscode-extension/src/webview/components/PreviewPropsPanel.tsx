@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from "react";
+import { InspectedValue, PreviewProp } from "../../common/Project";
+import { useProject } from "../providers/ProjectProvider";
+import Button from "./shared/Button";
+import Select from "./shared/Select";
+import "./PreviewPropsPanel.css";
+
+function getEditorType({ value, type, options }: PreviewProp) {
+  if (options) {
+    return "select";
+  }
+  if (value?.type === "boolean" || type === "boolean") {
+    return "boolean";
+  }
+  if (value?.type === "number" || type === "number") {
+    return "number";
+  }
+  if (value?.type === "string" || type === "string") {
+    return "string";
+  }
+  if (
+    value?.type === "function" ||
+    (value?.type === "other" && value.description.startsWith("<"))
+  ) {
+    // functions and elements can't be passed from the IDE
+    return "readonly";
+  }
+  return "json";
+}
+
+function describeValue(value: InspectedValue | undefined) {
+  switch (value?.type) {
+    case undefined:
+    case "undefined":
+      return "";
+    case "string":
+    case "number":
+    case "boolean":
+      return String(value.value);
+    case "null":
+      return "null";
+    case "function":
+      return `ƒ ${value.name}()`;
+    case "object":
+      return value.preview;
+    case "other":
+      return value.description;
+  }
+}
+
+type PropEditorProps = {
+  prop: PreviewProp;
+  onChange: (value: unknown) => void;
+};
+
+function PropEditor({ prop, onChange }: PropEditorProps) {
+  const { value } = prop;
+  const editorType = getEditorType(prop);
+  const text = describeValue(value);
+
+  // text inputs are uncontrolled and reset whenever the value reported by the app changes
+  const commitText = (newText: string) => {
+    if (newText === text) {
+      return;
+    }
+    switch (editorType) {
+      case "number":
+        !Number.isNaN(Number(newText)) && onChange(Number(newText));
+        break;
+      case "string":
+        onChange(newText);
+        break;
+      case "json":
+        try {
+          onChange(JSON.parse(newText));
+        } catch {
+          // values that aren't valid JSON are passed as strings
+          onChange(newText);
+        }
+        break;
+    }
+  };
+
+  switch (editorType) {
+    case "readonly":
+      return <span className="preview-prop-readonly">{text}</span>;
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value?.type === "boolean" && value.value}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+    case "select":
+      return (
+        <Select
+          className="preview-prop-select"
+          value={value?.type === "string" ? value.value : undefined}
+          onChange={onChange}
+          placeholder="undefined"
+          items={prop.options!.map((option) => ({ value: option, label: option }))}
+        />
+      );
+    default:
+      return (
+        <input
+          key={text}
+          className="preview-prop-input"
+          type={editorType === "number" ? "number" : "text"}
+          defaultValue={text}
+          placeholder={editorType === "json" ? "JSON value" : undefined}
+          onBlur={(e) => commitText(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && commitText(e.currentTarget.value)}
+        />
+      );
+  }
+}
+
+type PreviewPropsPanelProps = {
+  previewId: string;
+};
+
+function PreviewPropsPanel({ previewId }: PreviewPropsPanelProps) {
+  const { project, projectState } = useProject();
+  const [props, setProps] = useState<PreviewProp[] | undefined>(undefined);
+
+  const refreshProps = useCallback(() => {
+    project.getPreviewProps(previewId).then(setProps);
+  }, [project, previewId]);
+
+  const isRunning = projectState.status === "running";
+  useEffect(() => {
+    // props in the source may change with fast refresh, which ends with running status
+    if (isRunning) {
+      refreshProps();
+    }
+  }, [refreshProps, isRunning]);
+
+  const onPropChange = (name: string, value: unknown) => {
+    project.overridePreviewProps(previewId, { [name]: value }).then((newProps) => {
+      newProps && setProps(newProps);
+    });
+  };
+
+  const onReset = () => {
+    project.resetPreviewProps(previewId).then((newProps) => {
+      newProps && setProps(newProps);
+    });
+  };
+
+  return (
+    <div className="preview-props-panel">
+      <div className="preview-props-header">
+        <span className="preview-props-title">Preview props</span>
+        <Button
+          type="secondary"
+          disabled={!props?.some((prop) => prop.isOverridden)}
+          onClick={onReset}>
+          <span className="codicon codicon-discard" /> Reset
+        </Button>
+      </div>
+      {props === undefined && <div className="preview-props-empty">Props are not available</div>}
+      {props?.length === 0 && <div className="preview-props-empty">The component has no props</div>}
+      {props?.map((prop) => (
+        <div key={prop.name} className="preview-prop">
+          <span className="preview-prop-name">
+            {prop.name}
+            {prop.isOverridden && <span className="preview-prop-overridden">*</span>}
+          </span>
+          <span className="preview-prop-type" title={prop.type}>
+            {prop.type}
+          </span>
+          <PropEditor prop={prop} onChange={(value) => onPropChange(prop.name, value)} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default PreviewPropsPanel;
@@ -11,6 +11,8 @@ import { KeybindingInfo } from "./shared/KeybindingInfo";
 import { useUtils } from "../providers/UtilsProvider";
 import "./shared/SwitchGroup.css";
 import LaunchConfigurationView from "../views/LaunchConfigurationView";
+import BundleStatsView from "../views/BundleStatsView";
+import MetroLogsView from "../views/MetroLogsView";
 
 interface SettingsDropdownProps {
   children: React.ReactNode;
@@ -131,6 +133,22 @@ function SettingsDropdown({ project, isDeviceRunning, children, disabled }: Sett
             <span className="codicon codicon-rocket" />
             Launch configuration...
           </DropdownMenu.Item>
+          <DropdownMenu.Item
+            className="dropdown-menu-item"
+            onSelect={() => {
+              openModal("Bundle Statistics", <BundleStatsView />);
+            }}>
+            <span className="codicon codicon-graph" />
+            Bundle statistics...
+          </DropdownMenu.Item>
+          <DropdownMenu.Item
+            className="dropdown-menu-item"
+            onSelect={() => {
+              openModal("Metro Logs", <MetroLogsView />);
+            }}>
+            <span className="codicon codicon-list-flat" />
+            Metro logs...
+          </DropdownMenu.Item>
           <DropdownMenu.Arrow className="dropdown-menu-arrow" />
         </DropdownMenu.Content>
       </DropdownMenu.Portal>
@@ -1,4 +1,5 @@
 import { useEffect, useState, useMemo } from "react";
+import { NavigationHistory, NavigationHistoryItem } from "../../common/Project";
 import { useProject } from "../providers/ProjectProvider";
 import UrlSelect, { UrlItem } from "./UrlSelect";
 import { IconButtonWithOptions } from "./IconButtonWithOptions";
@@ -33,35 +34,41 @@ function UrlBar({ disabled }: { disabled?: boolean }) {
   const MAX_RECENT_URL_SIZE = 5;
 
   const [backNavigationPath, setBackNavigationPath] = useState<string>("");
-  const [urlList, setUrlList] = useState<UrlItem[]>([]);
-  const [recentUrlList, setRecentUrlList] = useState<UrlItem[]>([]);
   const [urlHistory, setUrlHistory] = useState<string[]>([]);
+  const [routes, setRoutes] = useState<string[]>([]);
+  // visited and pinned routes are kept by the project such that they survive restarts
+  const [navigationHistory, setNavigationHistory] = useState<NavigationHistory>({
+    visited: [],
+    pinned: [],
+    launchRouteId: undefined,
+  });
 
   useEffect(() => {
-    function moveAsMostRecent(urls: UrlItem[], newUrl: UrlItem) {
-      return [newUrl, ...urls.filter((record) => record.id !== newUrl.id)];
-    }
+    project.getNavigationRoutes().then(setRoutes);
+    project.addListener("navigationRoutesChanged", setRoutes);
+    return () => {
+      project.removeListener("navigationRoutesChanged", setRoutes);
+    };
+  }, []);
 
+  useEffect(() => {
+    project.getNavigationHistory().then(setNavigationHistory);
+    project.addListener("navigationHistoryChanged", setNavigationHistory);
+    return () => {
+      project.removeListener("navigationHistoryChanged", setNavigationHistory);
+    };
+  }, []);
+
+  useEffect(() => {
     function handleNavigationChanged(navigationData: { displayName: string; id: string }) {
       if (backNavigationPath && backNavigationPath !== navigationData.id) {
         return;
       }
 
-      const newRecord: UrlItem = {
-        name: navigationData.displayName,
-        id: navigationData.id,
-      };
-      const isNotInHistory = urlHistory.length === 0 || urlHistory[0] !== newRecord.id;
-
-      setUrlList((currentUrlList) => moveAsMostRecent(currentUrlList, newRecord));
-      setRecentUrlList((currentRecentUrlList) => {
-        const updatedRecentUrls = moveAsMostRecent(currentRecentUrlList, newRecord);
-        return updatedRecentUrls.slice(0, MAX_RECENT_URL_SIZE);
-      });
-
+      const isNotInHistory = urlHistory.length === 0 || urlHistory[0] !== navigationData.id;
       if (isNotInHistory) {
         setUrlHistory((currentUrlHistoryList) => {
-          const updatedUrlHistory = [newRecord.id, ...currentUrlHistoryList];
+          const updatedUrlHistory = [navigationData.id, ...currentUrlHistoryList];
           return updatedUrlHistory.slice(0, MAX_URL_HISTORY_SIZE);
         });
       }
@@ -72,11 +79,23 @@ function UrlBar({ disabled }: { disabled?: boolean }) {
     return () => {
       project.removeListener("navigationChanged", handleNavigationChanged);
     };
-  }, [recentUrlList, urlHistory, backNavigationPath]);
+  }, [urlHistory, backNavigationPath]);
+
+  const toUrlItem = ({ id, displayName }: NavigationHistoryItem): UrlItem => ({
+    id,
+    name: displayName,
+  });
+
+  const urlList = navigationHistory.visited.map(toUrlItem);
+  const recentUrlList = urlList.slice(0, MAX_RECENT_URL_SIZE);
+  const pinnedUrlList = navigationHistory.pinned.map(toUrlItem);
 
   const sortedUrlList = useMemo(() => {
     return [...urlList].sort((a, b) => a.name.localeCompare(b.name));
-  }, [urlList]);
+  }, [navigationHistory.visited]);
+
+  const currentItem = navigationHistory.visited.find((item) => item.id === urlHistory[0]);
+  const isCurrentItemPinned = navigationHistory.pinned.some((item) => item.id === currentItem?.id);
 
   return (
     <>
@@ -112,11 +131,34 @@ function UrlBar({ disabled }: { disabled?: boolean }) {
         onValueChange={(value: string) => {
           project.openNavigation(value);
         }}
+        onRouteSubmit={(route: string) => {
+          project.openRoute(route);
+        }}
         recentItems={recentUrlList}
         items={sortedUrlList}
-        value={urlList[0]?.id}
-        disabled={disabled || urlList.length < 2}
+        routes={routes}
+        pinnedItems={pinnedUrlList}
+        launchItemId={navigationHistory.launchRouteId}
+        onUnpin={(id: string) => project.unpinRoute(id)}
+        onLaunchItemChange={(id: string | undefined) => project.setLaunchRoute(id)}
+        value={currentItem?.id ?? ""}
+        disabled={disabled}
       />
+      <IconButton
+        onClick={() => {
+          if (isCurrentItemPinned) {
+            project.unpinRoute(currentItem!.id);
+          } else {
+            project.pinRoute(currentItem!);
+          }
+        }}
+        tooltip={{
+          label: isCurrentItemPinned ? "Unpin route" : "Pin route",
+          side: "bottom",
+        }}
+        disabled={disabled || !currentItem}>
+        <span className={`codicon ${isCurrentItemPinned ? "codicon-pinned" : "codicon-pin"}`} />
+      </IconButton>
     </>
   );
 }
@@ -1,80 +1,278 @@
-import React, { PropsWithChildren } from "react";
-import * as Select from "@radix-ui/react-select";
+import { ReactNode, useEffect, useId, useMemo, useRef, useState } from "react";
+import classNames from "classnames";
 import "./UrlSelect.css";
 
 export type UrlItem = { id: string; name: string };
 
-const SelectItem = React.forwardRef<HTMLDivElement, PropsWithChildren<Select.SelectItemProps>>(
-  ({ children, ...props }, forwardedRef) => (
-    <Select.Item className="url-select-item" {...props} ref={forwardedRef}>
-      <Select.ItemText style={{ width: 1 }}>
-        <div className="url-select-item-text">{children}</div>
-      </Select.ItemText>
-    </Select.Item>
-  )
-);
+type Suggestion = {
+  key: string;
+  label: string;
+  group: string;
+  onSelect: () => void;
+  actions?: ReactNode;
+};
 
 interface UrlSelectProps {
   value: string;
   onValueChange: (newValue: string) => void;
+  onRouteSubmit: (route: string) => void;
   recentItems: UrlItem[];
   items: UrlItem[];
+  routes: string[];
+  pinnedItems: UrlItem[];
+  launchItemId: string | undefined;
+  onUnpin: (id: string) => void;
+  onLaunchItemChange: (id: string | undefined) => void;
   disabled?: boolean;
 }
 
-function UrlSelect({ onValueChange, recentItems, items, value, disabled }: UrlSelectProps) {
-  // We use two lists for URL selection: one with recently used URLs and another
-  // with all available URLs. Since recentItems is a subset of items, each recentItems's
-  // value is prefixed to differentiate their origins when presented in the Select
-  // component. This prefix is stripped off when the selected value is passed back
-  // through onValueChange.
+function UrlSelect({
+  onValueChange,
+  onRouteSubmit,
+  recentItems,
+  items,
+  routes,
+  pinnedItems,
+  launchItemId,
+  onUnpin,
+  onLaunchItemChange,
+  value,
+  disabled,
+}: UrlSelectProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
 
-  const handleValueChange = (newSelection: string) => {
-    const stripped = newSelection.replace(/^recent#/, "");
-    onValueChange(stripped);
+  const currentName = [...items, ...pinnedItems].find((item) => item.id === value)?.name ?? "";
+
+  useEffect(() => {
+    if (!isOpen) {
+      setText(currentName);
+    }
+  }, [currentName, isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setHighlightedIndex(-1);
+    inputRef.current?.blur();
+  };
+
+  const openRoute = (route: string) => {
+    // dynamic segments need to be filled in before navigating, so we only put the route in the input
+    if (/\[.+\]/.test(route)) {
+      setText(route);
+      setHighlightedIndex(-1);
+      inputRef.current?.focus();
+      return;
+    }
+    onRouteSubmit(route);
+    close();
+  };
+
+  const openItem = (item: UrlItem) => {
+    onValueChange(item.id);
+    close();
+  };
+
+  const suggestions = useMemo(() => {
+    // the whole list is shown until the user starts typing
+    const filter = text === currentName ? "" : text.toLowerCase();
+    const matches = (name: string) => name.toLowerCase().includes(filter);
+    const visitedNames = new Set(items.map((item) => item.name));
+
+    const result: Suggestion[] = [];
+    pinnedItems
+      .filter((item) => matches(item.name))
+      .forEach((item) => {
+        const isLaunchItem = item.id === launchItemId;
+        result.push({
+          key: `pinned#${item.id}`,
+          label: item.name,
+          group: "Pinned:",
+          onSelect: () => openItem(item),
+          actions: (
+            <>
+              <span
+                className={classNames(
+                  "codicon codicon-rocket url-select-item-action",
+                  isLaunchItem && "active"
+                )}
+                title={isLaunchItem ? "Don't launch at this route" : "Launch at this route"}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLaunchItemChange(isLaunchItem ? undefined : item.id);
+                }}
+              />
+              <span
+                className="codicon codicon-pinned url-select-item-action"
+                title="Unpin route"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUnpin(item.id);
+                }}
+              />
+            </>
+          ),
+        });
+      });
+    recentItems
+      .filter((item) => item.name && matches(item.name))
+      .forEach((item) =>
+        result.push({
+          key: `recent#${item.id}`,
+          label: item.name,
+          group: "Recently used:",
+          onSelect: () => openItem(item),
+        })
+      );
+    routes
+      .filter((route) => !visitedNames.has(route) && matches(route))
+      .forEach((route) =>
+        result.push({
+          key: `route#${route}`,
+          label: route,
+          group: "Routes:",
+          onSelect: () => openRoute(route),
+        })
+      );
+    items
+      .filter((item) => item.name && matches(item.name))
+      .forEach((item) =>
+        result.push({
+          key: item.id,
+          label: item.name,
+          group: "All visited paths:",
+          onSelect: () => openItem(item),
+        })
+      );
+    return result;
+  }, [text, currentName, recentItems, items, routes, pinnedItems, launchItemId]);
+
+  const submitText = () => {
+    const route = text.trim();
+    if (!route) {
+      return;
+    }
+    const visitedItem = [...pinnedItems, ...items].find((item) => item.name === route);
+    if (visitedItem) {
+      openItem(visitedItem);
+    } else {
+      onRouteSubmit(route.startsWith("/") ? route : `/${route}`);
+      close();
+    }
   };
 
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setIsOpen(true);
+        setHighlightedIndex((index) => Math.min(index + 1, suggestions.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setHighlightedIndex((index) => Math.max(index - 1, -1));
+        break;
+      case "Enter":
+        if (highlightedIndex >= 0 && suggestions[highlightedIndex]) {
+          suggestions[highlightedIndex].onSelect();
+        } else {
+          submitText();
+        }
+        break;
+      case "Escape":
+        close();
+        break;
+    }
+  };
+
+  // consecutive suggestions from the same group are rendered together under the group label
+  const suggestionGroups: { label: string; indices: number[] }[] = [];
+  suggestions.forEach((suggestion, index) => {
+    const lastGroup = suggestionGroups[suggestionGroups.length - 1];
+    if (lastGroup?.label === suggestion.group) {
+      lastGroup.indices.push(index);
+    } else {
+      suggestionGroups.push({ label: suggestion.group, indices: [index] });
+    }
+  });
+
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+  const isExpanded = isOpen && suggestions.length > 0;
+
   return (
-    <Select.Root onValueChange={handleValueChange} value={value} disabled={disabled}>
-      <Select.Trigger className="url-select-trigger">
-        <Select.Value placeholder="/" aria-label={value} />
-      </Select.Trigger>
-      <Select.Portal>
-        <Select.Content className="url-select-content" position="popper">
-          <Select.ScrollUpButton className="url-select-scroll">
-            <span className="codicon codicon-chevron-up" />
-          </Select.ScrollUpButton>
-          <Select.Viewport className="url-select-viewport">
-            <Select.Group>
-              <Select.Label className="url-select-label">Recently used:</Select.Label>
-              {recentItems.map(
-                (item) =>
-                  item.name && (
-                    <SelectItem value={`recent#${item.id}`} key={item.id}>
-                      {item.name}
-                    </SelectItem>
-                  )
-              )}
-            </Select.Group>
-            <Select.Separator className="url-select-separator" />
-            <Select.Group>
-              <Select.Label className="url-select-label">All visited paths:</Select.Label>
-              {items.map(
-                (item) =>
-                  item.name && (
-                    <SelectItem value={item.id} key={item.id}>
-                      {item.name}
-                    </SelectItem>
-                  )
-              )}
-            </Select.Group>
-          </Select.Viewport>
-          <Select.ScrollDownButton className="url-select-scroll">
-            <span className="codicon codicon-chevron-down" />
-          </Select.ScrollDownButton>
-        </Select.Content>
-      </Select.Portal>
-    </Select.Root>
+    <div className="url-select">
+      <input
+        ref={inputRef}
+        className="url-select-trigger"
+        placeholder="/"
+        role="combobox"
+        aria-label={currentName}
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          isExpanded && highlightedIndex >= 0 ? getOptionId(highlightedIndex) : undefined
+        }
+        value={text}
+        disabled={disabled}
+        spellCheck={false}
+        onFocus={(e) => {
+          e.target.select();
+          setIsOpen(true);
+        }}
+        onBlur={() => {
+          setIsOpen(false);
+          setHighlightedIndex(-1);
+        }}
+        onChange={(e) => {
+          setText(e.target.value);
+          setHighlightedIndex(-1);
+          setIsOpen(true);
+        }}
+        onKeyDown={onKeyDown}
+      />
+      {isExpanded && (
+        <div className="url-select-content">
+          <div id={listboxId} role="listbox" className="url-select-viewport">
+            {suggestionGroups.map((group, groupIndex) => (
+              <div
+                key={group.label}
+                role="group"
+                aria-labelledby={`${listboxId}-group-${groupIndex}`}>
+                {groupIndex > 0 && <div className="url-select-separator" aria-hidden />}
+                <div id={`${listboxId}-group-${groupIndex}`} className="url-select-label">
+                  {group.label}
+                </div>
+                {group.indices.map((index) => {
+                  const suggestion = suggestions[index];
+                  return (
+                    <div
+                      key={suggestion.key}
+                      id={getOptionId(index)}
+                      role="option"
+                      aria-selected={index === highlightedIndex}
+                      className="url-select-item"
+                      data-highlighted={index === highlightedIndex ? "" : undefined}
+                      onMouseEnter={() => setHighlightedIndex(index)}
+                      // prevents the input from losing focus before the click is handled
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={suggestion.onSelect}>
+                      <div className="url-select-item-text">{suggestion.label}</div>
+                      {suggestion.actions && (
+                        <div className="url-select-item-actions">{suggestion.actions}</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
   );
 }
 
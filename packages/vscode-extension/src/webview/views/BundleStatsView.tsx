@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from "react";
+import "./View.css";
+import "./BundleStatsView.css";
+import { useProject } from "../providers/ProjectProvider";
+import Label from "../components/shared/Label";
+import { BundleModuleStats, BundleStats, BundleStatsHistory } from "../../common/Project";
+
+const MAX_LISTED_ITEMS = 15;
+
+function formatSize(size: number) {
+  const absoluteSize = Math.abs(size);
+  if (absoluteSize >= 1024 * 1024) {
+    return `${(size / (1024 * 1024)).toFixed(2)} MB`;
+  }
+  if (absoluteSize >= 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${size} B`;
+}
+
+function formatSizeDiff(diff: number) {
+  return diff > 0 ? `+${formatSize(diff)}` : formatSize(diff);
+}
+
+function formatDuration(durationMs: number) {
+  return durationMs >= 1000 ? `${(durationMs / 1000).toFixed(1)} s` : `${durationMs} ms`;
+}
+
+function getPackageName(modulePath: string) {
+  const segments = modulePath.split(/[\\/]/);
+  const nodeModulesIndex = segments.lastIndexOf("node_modules");
+  if (nodeModulesIndex === -1 || nodeModulesIndex + 1 >= segments.length) {
+    return "(app)";
+  }
+  const packageName = segments[nodeModulesIndex + 1];
+  if (packageName.startsWith("@") && nodeModulesIndex + 2 < segments.length) {
+    return `${packageName}/${segments[nodeModulesIndex + 2]}`;
+  }
+  return packageName;
+}
+
+function getPackages(modules: BundleModuleStats[]) {
+  const packages = new Map<string, { size: number; moduleCount: number }>();
+  modules.forEach((module) => {
+    const name = getPackageName(module.path);
+    const stats = packages.get(name) ?? { size: 0, moduleCount: 0 };
+    stats.size += module.size;
+    stats.moduleCount += 1;
+    packages.set(name, stats);
+  });
+  return [...packages.entries()]
+    .map(([name, stats]) => ({ name, ...stats }))
+    .sort((a, b) => b.size - a.size);
+}
+
+function getBundleDiff(current: BundleStats, previous: BundleStats) {
+  const previousSizes = new Map(previous.modules.map((module) => [module.path, module.size]));
+  const currentPaths = new Set(current.modules.map((module) => module.path));
+  const changes = current.modules
+    .map((module) => ({
+      path: module.path,
+      diff: module.size - (previousSizes.get(module.path) ?? 0),
+      isNew: !previousSizes.has(module.path),
+    }))
+    .filter(({ diff, isNew }) => diff !== 0 || isNew);
+  const removedModules = previous.modules.filter((module) => !currentPaths.has(module.path));
+  removedModules.forEach((module) => {
+    changes.push({ path: module.path, diff: -module.size, isNew: false });
+  });
+  return {
+    sizeDiff: current.totalSize - previous.totalSize,
+    moduleCountDiff: current.modules.length - previous.modules.length,
+    addedCount: changes.filter(({ isNew }) => isNew).length,
+    removedCount: removedModules.length,
+    changes: changes.sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff)),
+  };
+}
+
+function BundleStatsView() {
+  const { project } = useProject();
+  const [stats, setStats] = useState<BundleStatsHistory | undefined>(undefined);
+
+  useEffect(() => {
+    project.getBundleStats().then(setStats);
+    project.addListener("bundleStatsChanged", setStats);
+    return () => {
+      project.removeListener("bundleStatsChanged", setStats);
+    };
+  }, [project]);
+
+  const current = stats?.current;
+  const previous = stats?.previous;
+
+  const heaviestModules = useMemo(
+    () => [...(current?.modules ?? [])].sort((a, b) => b.size - a.size),
+    [current]
+  );
+  const slowestModules = useMemo(
+    () =>
+      (current?.modules ?? [])
+        .filter((module) => module.transformDurationMs !== undefined)
+        .sort((a, b) => b.transformDurationMs! - a.transformDurationMs!),
+    [current]
+  );
+  const packages = useMemo(() => getPackages(current?.modules ?? []), [current]);
+  const diff = useMemo(
+    () => (current && previous ? getBundleDiff(current, previous) : undefined),
+    [current, previous]
+  );
+
+  if (!current) {
+    return (
+      <div className="bundle-stats-container">
+        <p className="bundle-stats-empty">
+          No bundle statistics yet. They are collected when Metro builds the bundle.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bundle-stats-container">
+      <div className="bundle-stats-summary">
+        <SummaryItem label="Total size" value={formatSize(current.totalSize)} />
+        <SummaryItem label="Modules" value={current.modules.length.toString()} />
+        <SummaryItem label="Transform time" value={formatDuration(current.transformDurationMs)} />
+      </div>
+
+      {diff && (
+        <>
+          <Label>Changes since previous bundle</Label>
+          <div className="bundle-stats-summary">
+            <SummaryItem label="Size" value={formatSizeDiff(diff.sizeDiff)} />
+            <SummaryItem label="Added modules" value={diff.addedCount.toString()} />
+            <SummaryItem label="Removed modules" value={diff.removedCount.toString()} />
+          </div>
+          <StatsTable
+            rows={diff.changes
+              .slice(0, MAX_LISTED_ITEMS)
+              .map(({ path, diff: sizeDiff, isNew }) => [
+                isNew ? `${path} (new)` : path,
+                formatSizeDiff(sizeDiff),
+              ])}
+          />
+        </>
+      )}
+
+      <Label>Heaviest packages</Label>
+      <StatsTable
+        rows={packages
+          .slice(0, MAX_LISTED_ITEMS)
+          .map(({ name, size, moduleCount }) => [
+            `${name} (${moduleCount} modules)`,
+            formatSize(size),
+          ])}
+      />
+
+      <Label>Heaviest modules</Label>
+      <StatsTable
+        rows={heaviestModules
+          .slice(0, MAX_LISTED_ITEMS)
+          .map(({ path, size }) => [path, formatSize(size)])}
+      />
+
+      {slowestModules.length > 0 && (
+        <>
+          <Label>Slowest transforms</Label>
+          <StatsTable
+            rows={slowestModules
+              .slice(0, MAX_LISTED_ITEMS)
+              .map(({ path, transformDurationMs }) => [path, formatDuration(transformDurationMs!)])}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bundle-stats-summary-item">
+      <span className="bundle-stats-summary-value">{value}</span>
+      <span className="bundle-stats-summary-label">{label}</span>
+    </div>
+  );
+}
+
+function StatsTable({ rows }: { rows: [string, string][] }) {
+  if (rows.length === 0) {
+    return <p className="bundle-stats-empty">Nothing to show</p>;
+  }
+  return (
+    <table className="bundle-stats-table">
+      <tbody>
+        {rows.map(([name, value]) => (
+          <tr key={name}>
+            <td className="bundle-stats-table-name" title={name}>
+              {name}
+            </td>
+            <td className="bundle-stats-table-value">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default BundleStatsView;
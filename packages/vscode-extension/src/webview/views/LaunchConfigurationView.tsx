@@ -1,13 +1,14 @@
 import "./View.css";
 import "./LaunchConfigurationView.css";
-import { useRef } from "react";
+import { RefObject, useRef, useState } from "react";
 import Label from "../components/shared/Label";
 import { useLaunchConfig } from "../providers/LaunchConfigProvider";
-import { LaunchConfigUpdater } from "../../common/LaunchConfig";
+import { LaunchConfigUpdater, LaunchConfigurationOptions } from "../../common/LaunchConfig";
 import Select from "../components/shared/Select";
+import { validateMetroOptions } from "../../utilities/metroOptions";
 
 function LaunchConfigurationView() {
-  const { android, appRoot, ios, isExpo, metroConfigPath, update, xcodeSchemes } =
+  const { android, appRoot, ios, isExpo, metroConfigPath, metro, update, xcodeSchemes } =
     useLaunchConfig();
 
   return (
@@ -39,6 +40,11 @@ function LaunchConfigurationView() {
 
       <div className="launch-configuration-section-margin" />
 
+      <Label>Metro</Label>
+      <MetroConfiguration metro={metro} update={update} />
+
+      <div className="launch-configuration-section-margin" />
+
       <Label>is Expo</Label>
       <IsExpoConfiguration isExpo={isExpo} update={update} />
 
@@ -207,6 +213,86 @@ function MetroConfigPathConfiguration({ metroConfigPath, update }: metroPathConf
   );
 }
 
+interface metroConfigurationProps {
+  metro?: LaunchConfigurationOptions["metro"];
+  update: LaunchConfigUpdater;
+}
+
+function MetroConfiguration({ metro, update }: metroConfigurationProps) {
+  const portInputRef = useRef<HTMLInputElement>(null);
+  const hostInputRef = useRef<HTMLInputElement>(null);
+  const entryFileInputRef = useRef<HTMLInputElement>(null);
+  const argsInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const readInput = (inputRef: RefObject<HTMLInputElement>) => {
+    const value = inputRef.current?.value.trim();
+    return value === "" || value === "Auto" ? undefined : value;
+  };
+
+  const onBlur = () => {
+    const port = readInput(portInputRef);
+    const args = readInput(argsInputRef);
+    const newMetro = {
+      ...metro,
+      port: port !== undefined ? Number(port) : undefined,
+      host: readInput(hostInputRef),
+      entryFile: readInput(entryFileInputRef),
+      args: args?.split(/\s+/),
+    };
+    // invalid values are not saved, so that the configuration never ends up with e.g. NaN port
+    const { errors: newErrors } = validateMetroOptions(newMetro);
+    setErrors(newErrors);
+    if (newErrors.length > 0) {
+      return;
+    }
+    const isEmpty = Object.values(newMetro).every((value) => value === undefined);
+    update("metro", isEmpty ? "Auto" : newMetro);
+  };
+
+  return (
+    <div className="container">
+      <div className="setting-description">Port:</div>
+      <input
+        ref={portInputRef}
+        className="input-configuration"
+        type="string"
+        defaultValue={metro?.port ?? "Auto"}
+        onBlur={onBlur}
+      />
+      <div className="setting-description">Host:</div>
+      <input
+        ref={hostInputRef}
+        className="input-configuration"
+        type="string"
+        defaultValue={metro?.host ?? "Auto"}
+        onBlur={onBlur}
+      />
+      <div className="setting-description">Entry File:</div>
+      <input
+        ref={entryFileInputRef}
+        className="input-configuration"
+        type="string"
+        defaultValue={metro?.entryFile ?? "Auto"}
+        onBlur={onBlur}
+      />
+      <div className="setting-description">Additional Arguments:</div>
+      <input
+        ref={argsInputRef}
+        className="input-configuration"
+        type="string"
+        defaultValue={metro?.args?.join(" ") ?? ""}
+        onBlur={onBlur}
+      />
+      {errors.map((error) => (
+        <div key={error} className="launch-configuration-error">
+          {error}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface isExpoConfigurationProps {
   isExpo?: boolean;
   update: LaunchConfigUpdater;
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from "react";
+import "./View.css";
+import "./MetroLogsView.css";
+import { useProject } from "../providers/ProjectProvider";
+import Select from "../components/shared/Select";
+import Button from "../components/shared/Button";
+import { MetroLogEntry, MetroLogLevel } from "../../common/Project";
+
+const MAX_DISPLAYED_LOGS = 500;
+const ALL_TYPES = "all";
+
+const LEVEL_SEVERITY: Record<MetroLogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const levelItems = [
+  { value: "debug", label: "All levels" },
+  { value: "info", label: "Info and above" },
+  { value: "warn", label: "Warnings and errors" },
+  { value: "error", label: "Errors only" },
+];
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+function MetroLogsView() {
+  const { project } = useProject();
+  const [logs, setLogs] = useState<MetroLogEntry[]>([]);
+  const [minLevel, setMinLevel] = useState<MetroLogLevel>("info");
+  const [type, setType] = useState(ALL_TYPES);
+  const [moduleFilter, setModuleFilter] = useState("");
+
+  useEffect(() => {
+    project.getMetroLogs().then(setLogs);
+
+    function onMetroLog(entry: MetroLogEntry) {
+      setLogs((prevLogs) => [...prevLogs, entry]);
+    }
+    function onMetroLogsCleared() {
+      setLogs([]);
+    }
+    project.addListener("metroLog", onMetroLog);
+    project.addListener("metroLogsCleared", onMetroLogsCleared);
+    return () => {
+      project.removeListener("metroLog", onMetroLog);
+      project.removeListener("metroLogsCleared", onMetroLogsCleared);
+    };
+  }, [project]);
+
+  const typeItems = useMemo(() => {
+    const types = [...new Set(logs.map((entry) => entry.type))].sort();
+    return [
+      { value: ALL_TYPES, label: "All events" },
+      ...types.map((logType) => ({ value: logType, label: logType })),
+    ];
+  }, [logs]);
+
+  const filteredLogs = useMemo(() => {
+    const normalizedModuleFilter = moduleFilter.trim().toLowerCase();
+    return logs
+      .filter(
+        (entry) =>
+          LEVEL_SEVERITY[entry.level] >= LEVEL_SEVERITY[minLevel] &&
+          (type === ALL_TYPES || entry.type === type) &&
+          (!normalizedModuleFilter || entry.module?.toLowerCase().includes(normalizedModuleFilter))
+      )
+      .slice(-MAX_DISPLAYED_LOGS);
+  }, [logs, minLevel, type, moduleFilter]);
+
+  return (
+    <div className="metro-logs-container">
+      <div className="metro-logs-filters">
+        <Select
+          value={minLevel}
+          onChange={(value) => setMinLevel(value as MetroLogLevel)}
+          items={levelItems}
+        />
+        <Select value={type} onChange={setType} items={typeItems} />
+        <input
+          className="metro-logs-module-filter"
+          type="text"
+          placeholder="Filter by module"
+          value={moduleFilter}
+          onChange={(e) => setModuleFilter(e.target.value)}
+        />
+        <Button type="secondary" onClick={() => project.clearMetroLogs()}>
+          <span slot="start" className="codicon codicon-clear-all" />
+          Clear
+        </Button>
+      </div>
+      <div className="metro-logs-list">
+        {filteredLogs.length === 0 && <p className="metro-logs-empty">No logs to show</p>}
+        {filteredLogs.map((entry) => (
+          <div key={entry.id} className={`metro-logs-entry metro-logs-entry-${entry.level}`}>
+            <div className="metro-logs-entry-header">
+              <span>{formatTime(entry.timestamp)}</span>
+              <span className="metro-logs-entry-type">{entry.type}</span>
+              {entry.module && (
+                <span className="metro-logs-entry-module" title={entry.module}>
+                  {entry.module}
+                </span>
+              )}
+            </div>
+            <pre className="metro-logs-entry-message">{entry.message}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default MetroLogsView;
@@ -13,6 +13,8 @@ import { useDevices } from "../providers/DevicesProvider";
 import { useProject } from "../providers/ProjectProvider";
 import DeviceSelect from "../components/DeviceSelect";
 import { InspectDataMenu } from "../components/InspectDataMenu";
+import ComponentTreePanel from "../components/ComponentTreePanel";
+import PreviewPropsPanel from "../components/PreviewPropsPanel";
 import Button from "../components/shared/Button";
 import {
   Frame,
@@ -52,6 +54,11 @@ function PreviewView() {
   const { reportIssue, showDismissableError } = useUtils();
 
   const [isInspecting, setIsInspecting] = useState(false);
+  const [isComponentTreeOpen, setIsComponentTreeOpen] = useState(false);
+  const [selectedComponentId, setSelectedComponentId] = useState<number | undefined>(undefined);
+  const [isPreviewPropsOpen, setIsPreviewPropsOpen] = useState(false);
+  // id of the preview() component currently shown in the app, if any
+  const [currentPreviewId, setCurrentPreviewId] = useState<string | undefined>(undefined);
   const [inspectFrame, setInspectFrame] = useState<Frame | null>(null);
   const [inspectStackData, setInspectStackData] = useState<InspectStackData | null>(null);
   const zoomLevel = projectState.previewZoom ?? "Fit";
@@ -97,9 +104,20 @@ function PreviewView() {
     if (isStarting) {
       setLogCounter(0);
       setResetKey((prevKey) => prevKey + 1);
+      setCurrentPreviewId(undefined);
     }
   }, [setLogCounter, isStarting]);
 
+  useEffect(() => {
+    function handleNavigationChanged({ id }: { displayName: string; id: string }) {
+      setCurrentPreviewId(id.startsWith("preview:") ? id : undefined);
+    }
+    project.addListener("navigationChanged", handleNavigationChanged);
+    return () => {
+      project.removeListener("navigationChanged", handleNavigationChanged);
+    };
+  }, [project]);
+
   useEffect(() => {
     const disableInspectorOnEscape = (event: KeyboardEvent) => {
       if (event.key === "Escape") {
@@ -139,6 +157,13 @@ function PreviewView() {
     setIsInspecting(false);
   }
 
+  function onInspectComponent(item: InspectDataStackItem) {
+    setSelectedComponentId(item.componentId);
+    setIsComponentTreeOpen(true);
+    setIsInspecting(false);
+    resetInspector();
+  }
+
   function resetInspector() {
     setInspectFrame(null);
     setInspectStackData(null);
@@ -217,10 +242,21 @@ function PreviewView() {
               setInspectFrame(item.frame);
             }
           }}
+          onInspectComponent={onInspectComponent}
           onCancel={() => resetInspector()}
         />
       )}
 
+      {isComponentTreeOpen && (
+        <ComponentTreePanel
+          selectedId={selectedComponentId}
+          onSelect={setSelectedComponentId}
+          onHighlight={setInspectFrame}
+        />
+      )}
+
+      {isPreviewPropsOpen && currentPreviewId && <PreviewPropsPanel previewId={currentPreviewId} />}
+
       <div className="button-group-bottom">
         <IconButton
           active={isInspecting}
@@ -231,6 +267,24 @@ function PreviewView() {
           disabled={devicesNotFound}>
           <span className="codicon codicon-inspect" />
         </IconButton>
+        <IconButton
+          active={isComponentTreeOpen}
+          tooltip={{
+            label: "Show component tree",
+          }}
+          onClick={() => setIsComponentTreeOpen(!isComponentTreeOpen)}
+          disabled={devicesNotFound}>
+          <span className="codicon codicon-list-tree" />
+        </IconButton>
+        <IconButton
+          active={isPreviewPropsOpen && currentPreviewId !== undefined}
+          tooltip={{
+            label: "Edit props of the previewed component",
+          }}
+          onClick={() => setIsPreviewPropsOpen(!isPreviewPropsOpen)}
+          disabled={devicesNotFound || currentPreviewId === undefined}>
+          <span className="codicon codicon-symbol-property" />
+        </IconButton>
 
         <span className="group-separator" />
 